@@ -2,8 +2,18 @@ import express from 'express';
 import dotenv from 'dotenv';
 import cookieParser from 'cookie-parser';
 import authRoutes from './routes/auth.routes';
+import webauthnRoutes from './routes/webauthn.routes';
+import oauthRoutes from './routes/oauth.routes';
+import wellKnownRoutes from './routes/wellKnown.routes';
 import userRoutes from './routes/user.routes';
 import taskRoutes from './routes/task.routes';
+import adminRoutes from './routes/admin.routes';
+import { rateLimit } from './middleware/rateLimit';
+import { rateLimitPolicies } from './config/rateLimit';
+import { csrfProtection } from './middleware/csrf';
+import { securityHeaders } from './middleware/securityHeaders';
+import { cors } from './middleware/cors';
+import { securityHeadersOptions, corsOptions } from './config/security';
 
 // Load environment variables
 dotenv.config();
@@ -15,20 +25,59 @@ process.env.NODE_ENV = NODE_ENV;
 
 const app = express();
 
+/**
+ * Parse TRUST_PROXY into an Express "trust proxy" setting
+ * "true"/"false", a hop count ("1"), or addresses/subnets/presets
+ * ("loopback, 10.0.0.0/8")
+ * @param value - Raw environment value
+ * @returns Setting for app.set('trust proxy', ...)
+ */
+const parseTrustProxy = (value: string): boolean | number | string[] => {
+  const trimmed = value.trim().toLowerCase();
+
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+};
+
+// Trust the reverse proxy in front of the app so req.ip is the client IP
+// (required for per-IP rate limiting and lockouts)
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+}
+
+// Don't advertise the framework
+app.disable('x-powered-by');
+
+// Security headers and CORS first, so every response (including errors and
+// rate limit rejections) carries them
+app.use(securityHeaders(securityHeadersOptions));
+app.use(cors(corsOptions));
+
 // Middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
+app.use(rateLimit(rateLimitPolicies.global));
+app.use(csrfProtection); // Cookie-authenticated state-changing requests need X-CSRF-Token
 
 // Basic route
 app.get('/', (_, res) => {
   res.json({ message: 'Server is running!' });
 });
 
+// Public keys and discovery documents
+app.use('/.well-known', wellKnownRoutes);
+
 // API Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/auth/webauthn', webauthnRoutes);
+app.use('/api/auth/oauth', oauthRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/tasks', taskRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Error handling middleware (development: show detailed errors)
 if (NODE_ENV === 'development') {
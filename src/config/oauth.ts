@@ -0,0 +1,143 @@
+import dotenv from 'dotenv';
+import { OAuthProfile, fetchGitHubProfile } from '../lib/oauth';
+
+// Load environment variables
+dotenv.config();
+
+const API_URL = process.env.API_URL || 'http://localhost:5000';
+
+// Sign-in provider (OpenID Connect with discovery, or plain OAuth 2.0)
+export interface OAuthProviderConfig {
+  name: string; // Used in routes: /api/auth/oauth/:name
+  displayName: string;
+  type: 'oidc' | 'oauth2';
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string[];
+  discoveryUrl?: string; // OIDC: .well-known/openid-configuration URL
+  authorizationUrl?: string; // OAuth 2.0 only
+  tokenUrl?: string; // OAuth 2.0 only
+  authorizationParams?: Record<string, string>; // Extra consent URL parameters
+  fetchProfile?: (accessToken: string) => Promise<OAuthProfile>; // OAuth 2.0 only
+}
+
+// Default callback URL for a provider
+const callbackUrl = (name: string) => `${API_URL}/api/auth/oauth/${name}/callback`;
+
+/**
+ * Build the provider registry from the environment
+ * A provider is enabled when its client ID and secret are set:
+ *   GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET / GOOGLE_REDIRECT_URI
+ *   GITHUB_CLIENT_ID / GITHUB_CLIENT_SECRET / GITHUB_REDIRECT_URI
+ *   MICROSOFT_CLIENT_ID / MICROSOFT_CLIENT_SECRET / MICROSOFT_REDIRECT_URI / MICROSOFT_TENANT
+ * Any other OpenID Connect provider can be added by name:
+ *   OIDC_PROVIDERS="okta,keycloak"
+ *   OIDC_OKTA_DISCOVERY_URL, OIDC_OKTA_CLIENT_ID, OIDC_OKTA_CLIENT_SECRET,
+ *   OIDC_OKTA_DISPLAY_NAME, OIDC_OKTA_SCOPES, OIDC_OKTA_REDIRECT_URI (optional)
+ * @returns Enabled providers by name
+ */
+const loadProviders = (): Map<string, OAuthProviderConfig> => {
+  const providers = new Map<string, OAuthProviderConfig>();
+
+  const register = (
+    config: Omit<OAuthProviderConfig, 'clientId' | 'clientSecret'>,
+    clientId?: string,
+    clientSecret?: string
+  ) => {
+    if (clientId && clientSecret) {
+      providers.set(config.name, { ...config, clientId, clientSecret });
+    }
+  };
+
+  register(
+    {
+      name: 'google',
+      displayName: 'Google',
+      type: 'oidc',
+      // Keeps the redirect URI already registered with Google working
+      redirectUri: process.env.GOOGLE_REDIRECT_URI || `${API_URL}/api/auth/google/callback`,
+      scopes: ['openid', 'email', 'profile'],
+      discoveryUrl: 'https://accounts.google.com/.well-known/openid-configuration',
+      authorizationParams: { prompt: 'select_account' }
+    },
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET
+  );
+
+  register(
+    {
+      name: 'github',
+      displayName: 'GitHub',
+      type: 'oauth2',
+      redirectUri: process.env.GITHUB_REDIRECT_URI || callbackUrl('github'),
+      scopes: ['read:user', 'user:email'],
+      authorizationUrl: 'https://github.com/login/oauth/authorize',
+      tokenUrl: 'https://github.com/login/oauth/access_token',
+      fetchProfile: fetchGitHubProfile
+    },
+    process.env.GITHUB_CLIENT_ID,
+    process.env.GITHUB_CLIENT_SECRET
+  );
+
+  register(
+    {
+      name: 'microsoft',
+      displayName: 'Microsoft',
+      type: 'oidc',
+      redirectUri: process.env.MICROSOFT_REDIRECT_URI || callbackUrl('microsoft'),
+      scopes: ['openid', 'email', 'profile'],
+      discoveryUrl: `https://login.microsoftonline.com/${process.env.MICROSOFT_TENANT || 'common'}/v2.0/.well-known/openid-configuration`
+    },
+    process.env.MICROSOFT_CLIENT_ID,
+    process.env.MICROSOFT_CLIENT_SECRET
+  );
+
+  const customProviders = (process.env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const name of customProviders) {
+    const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const discoveryUrl = process.env[`${prefix}DISCOVERY_URL`];
+
+    if (!discoveryUrl) {
+      throw new Error(`${prefix}DISCOVERY_URL must be set for OIDC provider "${name}"`);
+    }
+
+    register(
+      {
+        name,
+        displayName: process.env[`${prefix}DISPLAY_NAME`] || name,
+        type: 'oidc',
+        redirectUri: process.env[`${prefix}REDIRECT_URI`] || callbackUrl(name),
+        scopes: (process.env[`${prefix}SCOPES`] || 'openid email profile').split(/[\s,]+/).filter(Boolean),
+        discoveryUrl
+      },
+      process.env[`${prefix}CLIENT_ID`],
+      process.env[`${prefix}CLIENT_SECRET`]
+    );
+  }
+
+  return providers;
+};
+
+const providers = loadProviders();
+
+/**
+ * Get an enabled provider by name
+ * @param name - Provider name
+ * @returns Provider config, or undefined if unknown or not configured
+ */
+export const getOAuthProvider = (name: string): OAuthProviderConfig | undefined => {
+  return providers.get(name.toLowerCase());
+};
+
+/**
+ * List enabled providers
+ * @returns Provider configs
+ */
+export const listOAuthProviders = (): OAuthProviderConfig[] => {
+  return Array.from(providers.values());
+};
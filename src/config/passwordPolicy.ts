@@ -0,0 +1,31 @@
+import path from 'path';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Password policy (used by register, resetPassword and changePassword)
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  minCharacterClasses: number; // Of lowercase, uppercase, digits and symbols
+  minEntropyBits: number; // Estimated strength (see lib/passwordPolicy)
+  disallowPersonalInfo: boolean; // Reject passwords containing the user's name or email
+  historySize: number; // Number of previous passwords that can't be reused (0 disables)
+  breachedListPath?: string; // Bloom filter of breached passwords (see scripts/buildPasswordBloomFilter)
+}
+
+const DEFAULT_BREACHED_LIST_PATH = path.join(process.cwd(), 'data', 'breached-passwords.bloom');
+
+export const passwordPolicy: PasswordPolicy = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '10'),
+  maxLength: parseInt(process.env.PASSWORD_MAX_LENGTH || '128'),
+  minCharacterClasses: parseInt(process.env.PASSWORD_MIN_CHARACTER_CLASSES || '3'),
+  minEntropyBits: parseInt(process.env.PASSWORD_MIN_ENTROPY_BITS || '45'),
+  disallowPersonalInfo: process.env.PASSWORD_ALLOW_PERSONAL_INFO !== 'true',
+  historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5'),
+  // Defaults to the bundled list (built from data/common-passwords.txt); set PASSWORD_BREACHED_LIST=off to disable the check
+  breachedListPath: process.env.PASSWORD_BREACHED_LIST === 'off'
+    ? undefined
+    : process.env.PASSWORD_BREACHED_LIST || DEFAULT_BREACHED_LIST_PATH
+};
@@ -0,0 +1,74 @@
+import dotenv from 'dotenv';
+import { RateLimitOptions } from '../middleware/rateLimit';
+import { createMemoryStore, createMongoStore } from '../lib/rateLimitStore';
+
+// Load environment variables
+dotenv.config();
+
+// memory: per process (default), mongo: shared between instances
+const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || 'memory';
+
+const store = RATE_LIMIT_STORE === 'mongo' ? createMongoStore() : createMemoryStore();
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Rate limit policies (per route group)
+export const rateLimitPolicies = {
+  // Applied to every request
+  global: {
+    name: 'global',
+    strategy: 'sliding-window',
+    limit: parseInt(process.env.RATE_LIMIT_GLOBAL_MAX || '300'),
+    windowMs: 15 * MINUTE,
+    keyBy: 'ip',
+    store
+  },
+  // Credential endpoints (login, 2FA)
+  login: {
+    name: 'login',
+    strategy: 'token-bucket',
+    limit: 10,
+    windowMs: 5 * MINUTE,
+    keyBy: 'ip',
+    store,
+    message: 'Too many login attempts. Please try again later.'
+  },
+  register: {
+    name: 'register',
+    strategy: 'sliding-window',
+    limit: 5,
+    windowMs: HOUR,
+    keyBy: 'ip',
+    store,
+    message: 'Too many accounts created from this IP. Please try again later.'
+  },
+  // Endpoints that send email
+  forgotPassword: {
+    name: 'forgot-password',
+    strategy: 'sliding-window',
+    limit: 3,
+    windowMs: HOUR,
+    keyBy: 'ip',
+    store,
+    message: 'Too many password reset requests. Please try again later.'
+  },
+  emailSending: {
+    name: 'email-sending',
+    strategy: 'sliding-window',
+    limit: 5,
+    windowMs: HOUR,
+    keyBy: ['route', 'ip'],
+    store,
+    message: 'Too many email requests. Please try again later.'
+  },
+  // Authenticated API usage (per user)
+  api: {
+    name: 'api',
+    strategy: 'token-bucket',
+    limit: 100,
+    windowMs: MINUTE,
+    keyBy: 'user',
+    store
+  }
+} satisfies Record<string, RateLimitOptions>;
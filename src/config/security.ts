@@ -0,0 +1,95 @@
+import dotenv from 'dotenv';
+import { SecurityHeadersOptions } from '../middleware/securityHeaders';
+import { CorsOptions } from '../middleware/cors';
+
+// Load environment variables
+dotenv.config();
+
+const NODE_ENV = process.env.NODE_ENV || 'development';
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+// Extra allowed origins, comma separated (FRONTEND_URL is always allowed)
+const EXTRA_ORIGINS = (process.env.CORS_ALLOWED_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const YEAR_SECONDS = 365 * 24 * 60 * 60;
+
+// The API only serves JSON, so nothing may be loaded or framed
+const API_CONTENT_SECURITY_POLICY = "default-src 'none'; frame-ancestors 'none'; base-uri 'none'; form-action 'none'";
+
+// Headers every browser client may send (see middleware/csrf and the refresh endpoint)
+const ALLOWED_HEADERS = ['Content-Type', 'Authorization', 'X-CSRF-Token', 'X-Refresh-Token'];
+
+// Headers browser clients may read (rate limit feedback)
+const EXPOSED_HEADERS = ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy'];
+
+const ALLOWED_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Per-environment presets
+const presets: Record<string, { headers: SecurityHeadersOptions; cors: CorsOptions }> = {
+  development: {
+    headers: {
+      contentSecurityPolicy: API_CONTENT_SECURITY_POLICY,
+      hsts: false, // Local HTTP
+      frameOptions: 'DENY',
+      referrerPolicy: 'no-referrer'
+    },
+    cors: {
+      // Common local dev server ports
+      allowedOrigins: [FRONTEND_URL, 'http://localhost:3000', 'http://localhost:5173', ...EXTRA_ORIGINS],
+      allowCredentials: true,
+      allowedMethods: ALLOWED_METHODS,
+      allowedHeaders: ALLOWED_HEADERS,
+      exposedHeaders: EXPOSED_HEADERS,
+      maxAgeSeconds: 600
+    }
+  },
+  test: {
+    headers: {
+      contentSecurityPolicy: API_CONTENT_SECURITY_POLICY,
+      hsts: false,
+      frameOptions: 'DENY',
+      referrerPolicy: 'no-referrer'
+    },
+    cors: {
+      allowedOrigins: [FRONTEND_URL, ...EXTRA_ORIGINS],
+      allowCredentials: true,
+      allowedMethods: ALLOWED_METHODS,
+      allowedHeaders: ALLOWED_HEADERS,
+      exposedHeaders: EXPOSED_HEADERS,
+      maxAgeSeconds: 600
+    }
+  },
+  production: {
+    headers: {
+      contentSecurityPolicy: API_CONTENT_SECURITY_POLICY,
+      hsts: {
+        maxAgeSeconds: parseInt(process.env.HSTS_MAX_AGE || String(YEAR_SECONDS)),
+        includeSubDomains: process.env.HSTS_INCLUDE_SUBDOMAINS !== 'false',
+        preload: process.env.HSTS_PRELOAD === 'true'
+      },
+      frameOptions: 'DENY',
+      referrerPolicy: 'no-referrer'
+    },
+    cors: {
+      allowedOrigins: [FRONTEND_URL, ...EXTRA_ORIGINS],
+      allowCredentials: true,
+      allowedMethods: ALLOWED_METHODS,
+      allowedHeaders: ALLOWED_HEADERS,
+      exposedHeaders: EXPOSED_HEADERS,
+      maxAgeSeconds: 7200
+    }
+  }
+};
+
+// Unknown environments get the strictest preset
+const preset = presets[NODE_ENV] || presets.production;
+
+export const securityHeadersOptions: SecurityHeadersOptions = {
+  ...preset.headers,
+  contentSecurityPolicy: process.env.SECURITY_CSP ?? preset.headers.contentSecurityPolicy
+};
+
+export const corsOptions: CorsOptions = preset.cors;
@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import { IApiKey } from '../models/apiKey.model';
+import { createApiKey, listApiKeys, deleteApiKey } from '../services/apiKey.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { createApiKeySchema, apiKeyIdParamsSchema } from './apiKey.schema';
+
+// Public API key fields (never includes the key or its hash)
+const formatApiKey = (apiKey: IApiKey) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  createdAt: apiKey.createdAt
+});
+
+/**
+ * Create an API key
+ * POST /api/auth/api-keys
+ */
+export const createKey = async (req: Request, res: Response) => {
+  try {
+    const validated = await createApiKeySchema.parseAsync({
+      body: req.body
+    });
+
+    const { name, scopes, expiresInDays } = validated.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const result = await createApiKey(userId, name, scopes, expiresInDays);
+
+    if (result.status === 'limit_reached') {
+      return res.status(400).json({
+        success: false,
+        message: 'You have reached the maximum number of API keys. Delete one before creating another.',
+        error: 'API_KEY_LIMIT_REACHED'
+      });
+    }
+
+    await recordAuditEvent({
+      type: 'api_key_created',
+      req,
+      metadata: { apiKeyId: result.apiKey._id.toString(), name, scopes }
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'API key created successfully. Copy it now: it will not be shown again.',
+      data: {
+        ...formatApiKey(result.apiKey),
+        key: result.key
+      }
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Create API key error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * List the authenticated user's API keys
+ * GET /api/auth/api-keys
+ */
+export const getKeys = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const apiKeys = await listApiKeys(userId);
+
+    return res.status(200).json({
+      success: true,
+      count: apiKeys.length,
+      data: apiKeys.map(formatApiKey)
+    });
+  } catch (error: any) {
+    console.error('Get API keys error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Delete an API key
+ * DELETE /api/auth/api-keys/:id
+ */
+export const deleteKey = async (req: Request, res: Response) => {
+  try {
+    const validated = await apiKeyIdParamsSchema.parseAsync({
+      params: req.params
+    });
+
+    const { id } = validated.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const deleted = await deleteApiKey(userId, id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'API key not found'
+      });
+    }
+
+    await recordAuditEvent({ type: 'api_key_deleted', req, metadata: { apiKeyId: id } });
+
+    return res.status(200).json({
+      success: true,
+      message: 'API key deleted successfully'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Delete API key error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES } from '../models/apiKey.model';
+
+// Create API key schema
+export const createApiKeySchema = z.object({
+  body: z.object({
+    name: z.string()
+      .min(1, 'Name is required')
+      .max(100, 'Name cannot exceed 100 characters')
+      .trim(),
+    scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one scope is required'),
+    expiresInDays: z.number().int().min(1).max(365).optional() // Omit for a key that never expires
+  })
+});
+
+// API key ID params schema
+export const apiKeyIdParamsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid API key ID')
+  })
+});
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import { IAuditEvent } from '../models/auditEvent.model';
+import { listAuditEvents } from '../services/audit.service';
+import { getAuditEventsQuerySchema, getSecurityEventsQuerySchema } from './audit.schema';
+
+// Public audit event fields
+const formatAuditEvent = (event: IAuditEvent) => ({
+  id: event._id,
+  type: event.type,
+  outcome: event.outcome,
+  actorId: event.actorId,
+  targetUserId: event.targetUserId,
+  ipAddress: event.ipAddress,
+  userAgent: event.userAgent,
+  metadata: event.metadata,
+  createdAt: event.createdAt
+});
+
+// Pagination metadata in the same shape as task lists
+const buildPagination = (page: number, limit: number, total: number) => {
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1
+  };
+};
+
+/**
+ * Query the audit log (Admin only)
+ * GET /api/admin/audit?type=login,logout&outcome=failure&actorId=&targetUserId=&ip=&from=&to=&page=&limit=
+ */
+export const getAuditEvents = async (req: Request, res: Response) => {
+  try {
+    const validated = await getAuditEventsQuerySchema.parseAsync({
+      query: req.query
+    });
+
+    const { type, outcome, actorId, targetUserId, ip, from, to } = validated.query;
+    const page = validated.query.page || 1;
+    const limit = validated.query.limit || 20;
+
+    const { events, total } = await listAuditEvents(
+      { types: type, outcome, actorId, targetUserId, ipAddress: ip, from, to },
+      page,
+      limit
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: events.map(formatAuditEvent),
+      pagination: buildPagination(page, limit, total)
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Get audit events error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * List security events on the authenticated user's account
+ * GET /api/users/profile/security-events
+ */
+export const getSecurityEvents = async (req: Request, res: Response) => {
+  try {
+    const validated = await getSecurityEventsQuerySchema.parseAsync({
+      query: req.query
+    });
+
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const page = validated.query.page || 1;
+    const limit = validated.query.limit || 20;
+
+    const { events, total } = await listAuditEvents({ targetUserId: userId }, page, limit);
+
+    return res.status(200).json({
+      success: true,
+      data: events.map((event) => ({
+        id: event._id,
+        type: event.type,
+        outcome: event.outcome,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        byAnotherUser: !!event.actorId && event.actorId.toString() !== userId, // e.g. an admin action
+        createdAt: event.createdAt
+      })),
+      pagination: buildPagination(page, limit, total)
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Get security events error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { AUDIT_EVENT_TYPES } from '../models/auditEvent.model';
+
+const objectId = (message: string) => z.string().regex(/^[0-9a-fA-F]{24}$/, message);
+
+const page = z
+  .string()
+  .regex(/^\d+$/, 'Page must be a number')
+  .default('1')
+  .transform((val) => parseInt(val, 10))
+  .refine((val) => val > 0, { message: 'Page must be greater than 0' })
+  .optional();
+
+const limit = z
+  .string()
+  .regex(/^\d+$/, 'Limit must be a number')
+  .default('20')
+  .transform((val) => parseInt(val, 10))
+  .refine((val) => val > 0 && val <= 100, { message: 'Limit must be between 1 and 100' })
+  .optional();
+
+const date = (message: string) => z
+  .string()
+  .transform((val) => new Date(val))
+  .refine((val) => !isNaN(val.getTime()), { message });
+
+// Get audit events query schema (admin, filtering and pagination)
+export const getAuditEventsQuerySchema = z.object({
+  query: z.object({
+    type: z
+      .string()
+      .transform((val) => val.split(',').map((item) => item.trim()).filter(Boolean))
+      .pipe(z.array(z.enum(AUDIT_EVENT_TYPES, { message: 'Unknown event type' })))
+      .optional(),
+    outcome: z
+      .enum(['success', 'failure'], {
+        message: 'Outcome must be success or failure'
+      })
+      .optional(),
+    actorId: objectId('Invalid actor ID').optional(),
+    targetUserId: objectId('Invalid target user ID').optional(),
+    ip: z.string().max(100).optional(),
+    from: date('From must be a valid date').optional(),
+    to: date('To must be a valid date').optional(),
+    page,
+    limit
+  })
+});
+
+// Get security events query schema (own account, pagination only)
+export const getSecurityEventsQuerySchema = z.object({
+  query: z.object({
+    page,
+    limit
+  })
+});
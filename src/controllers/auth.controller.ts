@@ -1,11 +1,50 @@
 import { Request, Response } from 'express';
 import crypto from 'crypto';
-import { OAuth2Client } from 'google-auth-library';
 import User from '../models/user.model';
-import { hashPassword, comparePassword } from '../lib/password';
-import { sendVerificationEmail, sendPasswordResetEmail } from '../lib/email';
-import { generateAccessToken, generateRefreshToken, verifyToken } from '../lib/jwt';
-import { generateTwoFactorSecret, verifyTwoFactorToken, generateBackupCodes, verifyBackupCode } from '../lib/twoFactor';
+import Passkey from '../models/passkey.model';
+import { hashPassword, comparePassword, needsRehash } from '../lib/password';
+import { validatePassword, isPasswordReused, addToPasswordHistory } from '../lib/passwordPolicy';
+import { sendVerificationEmail, sendMagicLinkEmail } from '../lib/email';
+import { verifyAccessToken, verifyRefreshToken } from '../lib/jwt';
+import {
+  generateTwoFactorSecret,
+  encryptTwoFactorSecret,
+  verifyTwoFactorToken,
+  generateBackupCodes,
+  hashBackupCodes,
+  findBackupCode,
+  getTwoFactorMethods
+} from '../lib/twoFactor';
+import { hashSecret } from '../lib/secretHash';
+import { setAuthCookies, clearAuthCookies, ensureCsrfCookie, setDeviceCookie } from '../lib/cookies';
+import { createSession, rotateSession, revokeSession, revokeAllSessions } from '../services/session.service';
+import { deleteAllApiKeys } from '../services/apiKey.service';
+import { revokeAccessToken } from '../services/tokenRevocation.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { startPasswordReset } from '../services/passwordReset.service';
+import {
+  DEVICE_CONFIRMATION_REQUIRED,
+  identifySignInDevice,
+  rememberSignInDevice,
+  trackSignInDevice,
+  startDeviceConfirmation,
+  reportUnrecognizedSignIn
+} from '../services/knownDevice.service';
+import {
+  startTwoFactorChallenge,
+  findPendingChallenge,
+  claimChallengeAttempt,
+  consumeChallenge
+} from '../services/twoFactorChallenge.service';
+import { sendEmailOtp, verifyEmailOtp, clearEmailOtps } from '../services/emailOtp.service';
+import { resendVerificationEmail, confirmPendingEmail, cancelPendingEmail } from '../services/emailVerification.service';
+import {
+  checkLoginThrottle,
+  recordLoginFailure,
+  clearLoginFailures,
+  unlockAccountWithToken,
+  LoginThrottleResult
+} from '../services/lockout.service';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -17,35 +56,49 @@ import {
   changePasswordSchema,
   verifyEmailSchema,
   resendVerificationSchema,
+  emailChangeTokenSchema,
   verifyTwoFactorSetupSchema,
   verifyTwoFactorLoginSchema,
-  disableTwoFactorSchema
+  disableTwoFactorSchema,
+  unlockAccountSchema,
+  confirmDeviceSchema,
+  reportSignInSchema,
+  magicLinkSchema,
+  verifyMagicLinkSchema,
+  verifyEmailTwoFactorSetupSchema,
+  sendTwoFactorEmailCodeSchema,
+  preferredTwoFactorMethodSchema
 } from './auth.schema';
 
-// Cookie options helper
-const getCookieOptions = () => {
-  const NODE_ENV = process.env.NODE_ENV || 'development';
-  
-  return {
-    httpOnly: true, // Prevents JavaScript access (XSS protection)
-    secure: NODE_ENV === 'production', // Only send over HTTPS in production
-    sameSite: 'strict' as const, // CSRF protection
-    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days (for refresh token)
-    path: '/' // Available for all routes
-  };
+const MAGIC_LINK_LIFETIME_MINUTES = 15; // Sign-in links are short-lived
+
+/**
+ * Send a policy violation in the same shape as validation errors
+ * @param res - Express response object
+ * @param path - Field the password was sent in
+ * @param errors - Policy violations
+ */
+const sendPasswordPolicyError = (res: Response, path: string, errors: string[]) => {
+  return res.status(400).json({
+    success: false,
+    message: 'Password does not meet the password policy',
+    error: 'WEAK_PASSWORD',
+    errors: errors.map((message) => ({ path: `body.${path}`, message }))
+  });
 };
 
-// Access token cookie options (shorter expiration)
-const getAccessTokenCookieOptions = () => {
-  const NODE_ENV = process.env.NODE_ENV || 'development';
+// Response for attempts rejected by brute-force protection
+const sendThrottledResponse = (res: Response, throttle: Exclude<LoginThrottleResult, { allowed: true }>) => {
+  res.set('Retry-After', String(throttle.retryAfter));
   
-  return {
-    httpOnly: true,
-    secure: NODE_ENV === 'production',
-    sameSite: 'strict' as const,
-    maxAge: 15 * 60 * 1000, // 15 minutes (for access token)
-    path: '/'
-  };
+  return res.status(429).json({
+    success: false,
+    message: throttle.reason === 'locked'
+      ? 'Too many failed attempts. Your account is temporarily locked.'
+      : 'Too many failed attempts. Please wait before trying again.',
+    error: throttle.reason === 'locked' ? 'ACCOUNT_LOCKED' : 'TOO_MANY_ATTEMPTS',
+    retryAfter: throttle.retryAfter
+  });
 };
 
 // Register controller
@@ -67,6 +120,13 @@ export const register = async (req: Request, res: Response) => {
       });
     }
     
+    // Check password strength
+    const policy = await validatePassword(password, { name, email });
+    
+    if (!policy.valid) {
+      return sendPasswordPolicyError(res, 'password', policy.errors);
+    }
+    
     // Hash password
     const hashedPassword = await hashPassword(password);
     
@@ -79,8 +139,10 @@ export const register = async (req: Request, res: Response) => {
       name,
       email,
       password: hashedPassword,
-      emailVerificationToken,
-      emailVerificationExpires
+      passwordHistory: addToPasswordHistory([], hashedPassword),
+      emailVerificationToken: hashSecret(emailVerificationToken), // Only the hash is stored
+      emailVerificationExpires,
+      emailVerificationSentAt: new Date()
     });
    
     
@@ -94,30 +156,14 @@ export const register = async (req: Request, res: Response) => {
       // User can request resend verification email later
     }
     
-    // Generate Access Token and Refresh Token
-    const accessToken = generateAccessToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-      tokenVersion: user.tokenVersion
-    });
-    
-    const refreshToken = generateRefreshToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-      tokenVersion: user.tokenVersion
-    });
+    // Start a new device session (issues access and refresh tokens)
+    const { accessToken, refreshToken } = await createSession(user, req);
     
-    // Store refresh token in database
-    const refreshTokenExpires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    user.refreshToken = refreshToken;
-    user.refreshTokenExpires = refreshTokenExpires;
-    await user.save();
+    // Remember this device (the first one never triggers a new-device alert)
+    setDeviceCookie(res, await trackSignInDevice(user, req));
     
     // Set tokens in cookies
-    res.cookie('accessToken', accessToken, getAccessTokenCookieOptions());
-    res.cookie('refreshToken', refreshToken, getCookieOptions());
+    setAuthCookies(res, accessToken, refreshToken);
     
     // Return user data (tokens are in cookies, but also return in response for flexibility)
     return res.status(201).json({
@@ -173,10 +219,19 @@ export const login = async (req: Request, res: Response) => {
     
     const { email, password } = validated.body;
     
+    // Reject attempts while the account or IP is locked or throttled
+    const throttle = await checkLoginThrottle(email, req.ip);
+    
+    if (!throttle.allowed) {
+      return sendThrottledResponse(res, throttle);
+    }
+    
     // Find user by email (include password for comparison)
     const user = await User.findOne({ email }).select('+password');
     
     if (!user) {
+      await recordLoginFailure(email, req.ip);
+      await recordAuditEvent({ type: 'login', outcome: 'failure', req, metadata: { method: 'password', email, reason: 'unknown_email' } });
       return res.status(401).json({
         success: false,
         message: 'Invalid email or password'
@@ -187,7 +242,7 @@ export const login = async (req: Request, res: Response) => {
     if (!user.password) {
       return res.status(401).json({
         success: false,
-        message: 'This account uses Google OAuth. Please use Google to sign in.'
+        message: 'This account uses an external sign-in provider. Please sign in with that provider.'
       });
     }
     
@@ -195,12 +250,33 @@ export const login = async (req: Request, res: Response) => {
     const isPasswordValid = await comparePassword(password, user.password);
     
     if (!isPasswordValid) {
+      await recordLoginFailure(email, req.ip, user);
+      await recordAuditEvent({
+        type: 'login',
+        outcome: 'failure',
+        req,
+        targetUserId: user._id.toString(),
+        metadata: { method: 'password', reason: 'invalid_password' }
+      });
       return res.status(401).json({
         success: false,
         message: 'Invalid email or password'
       });
     }
     
+    // Upgrade legacy (bcrypt) or weaker hashes now that we have the plain text password
+    if (needsRehash(user.password)) {
+      try {
+        await User.updateOne(
+          { _id: user._id, password: user.password }, // Skip if the password changed meanwhile
+          { $set: { password: await hashPassword(password) } }
+        );
+      } catch (rehashError: any) {
+        console.error('❌ Failed to upgrade password hash:', rehashError.message);
+        // The old hash still works, so the login goes ahead
+      }
+    }
+    
     // Check if email is verified - REQUIRED for login
     if (!user.isEmailVerified) {
       return res.status(403).json({
@@ -212,39 +288,46 @@ export const login = async (req: Request, res: Response) => {
     
     // Check if 2FA is enabled
     if (user.isTwoFactorEnabled) {
-      // Return response indicating 2FA is required
+      // Issue a short-lived challenge bound to this sign-in step
+      const challenge = await startTwoFactorChallenge(user);
+      
       return res.status(200).json({
         success: true,
         message: '2FA verification required',
         requiresTwoFactor: true,
-        userId: user._id.toString()
+        ...challenge
       });
     }
     
-    // Generate Access Token and Refresh Token
-    const accessToken = generateAccessToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-      tokenVersion: user.tokenVersion
-    });
+    // Unfamiliar device: optionally confirm it with an emailed code before issuing tokens
+    const device = await identifySignInDevice(user, req);
     
-    const refreshToken = generateRefreshToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-      tokenVersion: user.tokenVersion
-    });
+    if (!device.known && DEVICE_CONFIRMATION_REQUIRED) {
+      const confirmation = await startDeviceConfirmation(user);
+      
+      return res.status(200).json({
+        success: true,
+        message: 'New device. Enter the code we emailed you to continue.',
+        requiresDeviceConfirmation: true,
+        ...confirmation
+      });
+    }
     
-    // Store refresh token in database
-    const refreshTokenExpires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    user.refreshToken = refreshToken;
-    user.refreshTokenExpires = refreshTokenExpires;
-    await user.save();
+    // Only a completed sign-in resets the failure count (a pending 2FA or
+    // device confirmation must not, or its codes could be guessed without limit)
+    await clearLoginFailures(email, req.ip);
+    
+    // Start a new device session (issues access and refresh tokens)
+    const { accessToken, refreshToken } = await createSession(user, req);
+    
+    await recordAuditEvent({ type: 'login', req, actorId: user._id.toString(), metadata: { method: 'password' } });
+    
+    // Remember the device (emails a new-device alert if it is unfamiliar)
+    await rememberSignInDevice(user, req, device);
+    setDeviceCookie(res, device.deviceToken);
     
     // Set tokens in cookies
-    res.cookie('accessToken', accessToken, getAccessTokenCookieOptions());
-    res.cookie('refreshToken', refreshToken, getCookieOptions());
+    setAuthCookies(res, accessToken, refreshToken);
     
     // Return user data (tokens are in cookies, but also return in response for flexibility)
     return res.status(200).json({
@@ -294,7 +377,7 @@ export const refreshToken = async (req: Request, res: Response) => {
     }
     
     // Verify refresh token
-    const decoded = verifyToken(token);
+    const decoded = verifyRefreshToken(token);
     
     if (!decoded) {
       return res.status(401).json({
@@ -303,21 +386,20 @@ export const refreshToken = async (req: Request, res: Response) => {
       });
     }
     
-    // Find user and check if refresh token matches
-    const user = await User.findById(decoded.userId).select('+refreshToken +refreshTokenExpires');
-    
-    if (!user) {
+    // Refresh tokens are always bound to a device session
+    if (!decoded.sessionId) {
       return res.status(401).json({
         success: false,
-        message: 'User not found'
+        message: 'Invalid or expired refresh token'
       });
     }
     
-    // Check if refresh token matches and is not expired
-    if (user.refreshToken !== token || !user.refreshTokenExpires || user.refreshTokenExpires < new Date()) {
+    const user = await User.findById(decoded.userId);
+    
+    if (!user) {
       return res.status(401).json({
         success: false,
-        message: 'Invalid or expired refresh token'
+        message: 'User not found'
       });
     }
     
@@ -329,21 +411,34 @@ export const refreshToken = async (req: Request, res: Response) => {
       });
     }
     
-    // Generate new access token
-    const accessToken = generateAccessToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-      tokenVersion: user.tokenVersion
-    });
+    // Rotate: retire the presented refresh token and issue a new pair
+    const result = await rotateSession(decoded.sessionId, token, user, req);
+    
+    if (result.status === 'reuse_detected') {
+      clearAuthCookies(res);
+      
+      return res.status(401).json({
+        success: false,
+        message: 'Refresh token has already been used. This session has been revoked, please login again.',
+        error: 'REFRESH_TOKEN_REUSED'
+      });
+    }
+    
+    if (result.status === 'invalid') {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid or expired refresh token'
+      });
+    }
     
-    // Set new access token in cookie
-    res.cookie('accessToken', accessToken, getAccessTokenCookieOptions());
+    // Set new tokens in cookies
+    setAuthCookies(res, result.accessToken, result.refreshToken);
     
     return res.status(200).json({
       success: true,
       message: 'Token refreshed successfully',
-      accessToken // Still return for mobile apps/API clients
+      accessToken: result.accessToken, // Still return for mobile apps/API clients
+      refreshToken: result.refreshToken // Clients must replace their stored refresh token
     });
   } catch (error: any) {
     return res.status(500).json({
@@ -361,22 +456,33 @@ export const logout = async (req: Request, res: Response) => {
     
     if (refreshToken) {
       // Verify and find user
-      const decoded = verifyToken(refreshToken as string);
+      const decoded = verifyRefreshToken(refreshToken as string);
       
-      if (decoded) {
-        const user = await User.findById(decoded.userId);
-        if (user) {
-          // Invalidate refresh token in database
-          user.refreshToken = undefined;
-          user.refreshTokenExpires = undefined;
-          await user.save();
-        }
+      if (decoded && decoded.sessionId) {
+        // Revoke this device's session only (other devices stay signed in)
+        await revokeSession(decoded.sessionId, decoded.userId, 'logout');
+        await recordAuditEvent({ type: 'logout', req, actorId: decoded.userId, metadata: { sessionId: decoded.sessionId } });
+      }
+    }
+
+    // Revoke the presented access token as well, in case it belongs to an
+    // older rotation than the one recorded on the session
+    const accessToken = req.headers.authorization?.replace('Bearer ', '') || req.cookies.accessToken;
+
+    if (accessToken) {
+      const decodedAccess = verifyAccessToken(accessToken);
+
+      if (decodedAccess) {
+        await revokeAccessToken({
+          jti: decodedAccess.jti,
+          userId: decodedAccess.userId,
+          expiresAt: new Date(decodedAccess.exp * 1000)
+        }, 'logout');
       }
     }
     
     // Clear cookies
-    res.clearCookie('accessToken', { path: '/' });
-    res.clearCookie('refreshToken', { path: '/' });
+    clearAuthCookies(res);
     
     return res.status(200).json({
       success: true,
@@ -401,28 +507,15 @@ export const forgotPassword = async (req: Request, res: Response) => {
     const { email } = validated.body;
     
     // Find user by email
-    const user = await User.findOne({ email }).select('+resetPasswordToken +resetPasswordExpires');
+    const user = await User.findOne({ email });
     
     // Always return success message (security best practice - don't reveal if email exists)
     // But only send email if user exists
     if (user) {
-      // Generate password reset token
-      const resetToken = crypto.randomBytes(32).toString('hex');
-      const resetPasswordExpires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
+      // Save a reset token hash and send the reset link (email failures are logged - user can request again)
+      await startPasswordReset(user);
       
-      // Save reset token to user
-      user.resetPasswordToken = resetToken;
-      user.resetPasswordExpires = resetPasswordExpires;
-      await user.save();
-      
-      // Send password reset email
-      try {
-        await sendPasswordResetEmail(email, resetToken, user.name);
-        console.log(`✅ Password reset email sent to ${email}`);
-      } catch (emailError: any) {
-        console.error('❌ Failed to send password reset email:', emailError.message);
-        // Don't fail the request if email fails - user can request again
-      }
+      await recordAuditEvent({ type: 'password_reset_requested', req, targetUserId: user._id.toString() });
     }
     
     // Always return success (security: don't reveal if email exists)
@@ -463,9 +556,9 @@ export const resetPassword = async (req: Request, res: Response) => {
     
     // Find user by reset token and check if token is not expired
     const user = await User.findOne({
-      resetPasswordToken: token,
+      resetPasswordToken: hashSecret(token),
       resetPasswordExpires: { $gt: Date.now() } // Token must not be expired
-    }).select('+resetPasswordToken +resetPasswordExpires +password');
+    }).select('+resetPasswordToken +resetPasswordExpires +password +passwordHistory');
     
     if (!user) {
       return res.status(400).json({
@@ -474,11 +567,26 @@ export const resetPassword = async (req: Request, res: Response) => {
       });
     }
     
+    // Check password strength and reuse
+    const policy = await validatePassword(password, { name: user.name, email: user.email });
+    
+    if (!policy.valid) {
+      return sendPasswordPolicyError(res, 'password', policy.errors);
+    }
+    
+    if (await isPasswordReused(password, [user.password, ...(user.passwordHistory || [])])) {
+      return res.status(400).json({
+        success: false,
+        message: 'New password must be different from your current and recent passwords'
+      });
+    }
+    
     // Hash new password
     const hashedPassword = await hashPassword(password);
     
     // Update password
     user.password = hashedPassword;
+    user.passwordHistory = addToPasswordHistory(user.passwordHistory, hashedPassword);
     
     // Clear reset token fields
     user.resetPasswordToken = undefined;
@@ -487,12 +595,14 @@ export const resetPassword = async (req: Request, res: Response) => {
     // Increment tokenVersion to invalidate all existing tokens (security measure)
     user.tokenVersion += 1;
     
-    // Clear refresh token (force re-login)
-    user.refreshToken = undefined;
-    user.refreshTokenExpires = undefined;
-    
     await user.save();
     
+    // Revoke all device sessions (force re-login everywhere) and API keys
+    await revokeAllSessions(user._id.toString(), 'password_change');
+    await deleteAllApiKeys(user._id.toString());
+    
+    await recordAuditEvent({ type: 'password_reset', req, targetUserId: user._id.toString() });
+    
     return res.status(200).json({
       success: true,
       message: 'Password reset successful. Please login with your new password.'
@@ -539,7 +649,7 @@ export const changePassword = async (req: Request, res: Response) => {
     }
     
     // Find user with password field
-    const user = await User.findById(userId).select('+password');
+    const user = await User.findById(userId).select('+password +passwordHistory');
     
     if (!user) {
       return res.status(404).json({
@@ -568,19 +678,27 @@ export const changePassword = async (req: Request, res: Response) => {
     const isPasswordValid = await comparePassword(currentPassword, user.password);
     
     if (!isPasswordValid) {
+      await recordAuditEvent({ type: 'password_changed', outcome: 'failure', req, metadata: { reason: 'invalid_password' } });
       return res.status(400).json({
         success: false,
         message: 'Current password is incorrect'
       });
     }
     
-    // Check if new password is different from current password
-    const isSamePassword = await comparePassword(newPassword, user.password);
+    // Check password strength
+    const policy = await validatePassword(newPassword, { name: user.name, email: user.email });
+    
+    if (!policy.valid) {
+      return sendPasswordPolicyError(res, 'newPassword', policy.errors);
+    }
+    
+    // Check if new password is different from the current and recent passwords
+    const isReusedPassword = await isPasswordReused(newPassword, [user.password, ...(user.passwordHistory || [])]);
     
-    if (isSamePassword) {
+    if (isReusedPassword) {
       return res.status(400).json({
         success: false,
-        message: 'New password must be different from current password'
+        message: 'New password must be different from your current and recent passwords'
       });
     }
     
@@ -589,19 +707,21 @@ export const changePassword = async (req: Request, res: Response) => {
     
     // Update password
     user.password = hashedPassword;
+    user.passwordHistory = addToPasswordHistory(user.passwordHistory, hashedPassword);
     
     // Increment tokenVersion to invalidate all existing tokens (security measure)
     user.tokenVersion += 1;
     
-    // Clear refresh token (force re-login for security)
-    user.refreshToken = undefined;
-    user.refreshTokenExpires = undefined;
-    
     await user.save();
     
+    // Revoke all device sessions (force re-login for security) and API keys
+    await revokeAllSessions(user._id.toString(), 'password_change');
+    await deleteAllApiKeys(user._id.toString());
+    
+    await recordAuditEvent({ type: 'password_changed', req });
+    
     // Clear cookies (force re-login)
-    res.clearCookie('accessToken', { path: '/' });
-    res.clearCookie('refreshToken', { path: '/' });
+    clearAuthCookies(res);
     
     return res.status(200).json({
       success: true,
@@ -628,6 +748,24 @@ export const changePassword = async (req: Request, res: Response) => {
   }
 };
 
+// Issue the CSRF token for cookie-authenticated requests (see middleware/csrf)
+export const getCsrfToken = async (req: Request, res: Response) => {
+  try {
+    const csrfToken = ensureCsrfCookie(req, res);
+
+    return res.status(200).json({
+      success: true,
+      csrfToken
+    });
+  } catch (error: any) {
+    console.error('CSRF token error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 // Verify email controller
 export const verifyEmail = async (req: Request, res: Response) => {
   try {
@@ -640,7 +778,7 @@ export const verifyEmail = async (req: Request, res: Response) => {
     
     // Find user by verification token and check if token is not expired
     const user = await User.findOne({
-      emailVerificationToken: token,
+      emailVerificationToken: hashSecret(token),
       emailVerificationExpires: { $gt: Date.now() }
     }).select('+emailVerificationToken +emailVerificationExpires');
     
@@ -665,6 +803,8 @@ export const verifyEmail = async (req: Request, res: Response) => {
     user.emailVerificationExpires = undefined;
     await user.save();
     
+    await recordAuditEvent({ type: 'email_verified', req, targetUserId: user._id.toString() });
+    
     return res.status(200).json({
       success: true,
       message: 'Email verified successfully'
@@ -689,6 +829,111 @@ export const verifyEmail = async (req: Request, res: Response) => {
   }
 };
 
+// Confirm an email change (link sent to the new address)
+export const confirmEmailChange = async (req: Request, res: Response) => {
+  try {
+    const validated = await emailChangeTokenSchema.parseAsync({
+      body: req.body
+    });
+
+    const result = await confirmPendingEmail(validated.body.token);
+
+    if (result.status === 'email_taken') {
+      return res.status(400).json({
+        success: false,
+        message: 'This email address is already used by another account',
+        error: 'EMAIL_TAKEN'
+      });
+    }
+
+    if (result.status === 'invalid') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired confirmation link'
+      });
+    }
+
+    await recordAuditEvent({
+      type: 'email_changed',
+      req,
+      targetUserId: result.user._id.toString(),
+      metadata: { email: result.user.email }
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Email address changed successfully',
+      data: {
+        email: result.user.email
+      }
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Confirm email change error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Cancel a pending email change (link sent to the current address)
+export const cancelEmailChange = async (req: Request, res: Response) => {
+  try {
+    const validated = await emailChangeTokenSchema.parseAsync({
+      body: req.body
+    });
+
+    const user = await cancelPendingEmail(validated.body.token);
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired link, or the change was already confirmed'
+      });
+    }
+
+    await recordAuditEvent({
+      type: 'email_change_cancelled',
+      req,
+      targetUserId: user._id.toString(),
+      metadata: { pendingEmail: user.pendingEmail }
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Email change cancelled. If you did not request it, please reset your password.'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Cancel email change error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 // Resend verification email controller
 export const resendVerification = async (req: Request, res: Response) => {
   try {
@@ -697,13 +942,15 @@ export const resendVerification = async (req: Request, res: Response) => {
       body: req.body
     });
     
-    const { email: _email } = validated.body;
+    const { email } = validated.body;
     
-    // TODO: Implement resend verification logic
-    // - Find user by email
-    // - Check if already verified
-    // - Generate new verification token
-    // - Send verification email
+    // Sends only to unverified accounts, at most once per cooldown; the
+    // response is the same either way so it doesn't reveal which emails exist
+    try {
+      await resendVerificationEmail(email);
+    } catch (emailError: any) {
+      console.error('❌ Failed to resend verification email:', emailError.message);
+    }
     
     return res.status(200).json({
       success: true,
@@ -715,10 +962,10 @@ export const resendVerification = async (req: Request, res: Response) => {
       return res.status(400).json({
         success: false,
         message: 'Validation error',
-        errors: error.errors.map((err: any) => ({
+        errors: error.issues?.map((err: any) => ({
           path: err.path.join('.'),
           message: err.message
-        }))
+        })) || []
       });
     }
     
@@ -729,203 +976,418 @@ export const resendVerification = async (req: Request, res: Response) => {
   }
 };
 
-// Helper function to create Google OAuth client
-const createGoogleClient = () => {
-  const clientId = process.env.GOOGLE_CLIENT_ID;
-  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
-  const redirectUri = process.env.GOOGLE_REDIRECT_URI || 'http://localhost:5000/api/auth/google/callback';
-  
-  if (!clientId || !clientSecret) {
-    return null;
-  }
-  
-  return new OAuth2Client(clientId, clientSecret, redirectUri);
-};
-
-// Google OAuth - Initiate login
-export const googleAuth = async (_req: Request, res: Response): Promise<void> => {
+// Unlock account controller (link from the account locked email)
+export const unlockAccount = async (req: Request, res: Response) => {
   try {
-    // Reload environment variables (in case .env was updated)
-    dotenv.config();
+    // Validate request data using schema
+    const validated = await unlockAccountSchema.parseAsync({
+      body: req.body
+    });
+    
+    const { token } = validated.body;
     
-    const clientId = process.env.GOOGLE_CLIENT_ID;
-    const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+    const unlockedEmail = await unlockAccountWithToken(token);
     
-    if (!clientId || !clientSecret) {
-      console.error('Google OAuth config check:', {
-        GOOGLE_CLIENT_ID: clientId ? `SET (${clientId.substring(0, 20)}...)` : 'NOT SET',
-        GOOGLE_CLIENT_SECRET: clientSecret ? 'SET (***)' : 'NOT SET',
-        NODE_ENV: process.env.NODE_ENV
-      });
-      res.status(500).json({
+    if (!unlockedEmail) {
+      return res.status(400).json({
         success: false,
-        message: 'Google OAuth is not configured. Please set GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET in .env file.',
-        debug: {
-          clientIdSet: !!clientId,
-          clientSecretSet: !!clientSecret
-        }
+        message: 'Invalid or expired unlock token'
       });
-      return;
     }
-
-    const googleClient = createGoogleClient();
     
-    if (!googleClient) {
-      res.status(500).json({
+    const unlockedUser = await User.findOne({ email: unlockedEmail });
+    await recordAuditEvent({
+      type: 'account_unlocked',
+      req,
+      targetUserId: unlockedUser?._id.toString(),
+      metadata: { email: unlockedEmail, method: 'email_link' }
+    });
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Account unlocked successfully. You can now login.'
+    });
+  } catch (error: any) {
+    // Handle validation errors
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
         success: false,
-        message: 'Failed to initialize Google OAuth client'
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
       });
-      return;
     }
-
-    const authUrl = googleClient.generateAuthUrl({
-      access_type: 'offline',
-      scope: [
-        'https://www.googleapis.com/auth/userinfo.email',
-        'https://www.googleapis.com/auth/userinfo.profile'
-      ],
-      prompt: 'consent' // Force consent screen to get refresh token
-    });
-
-    res.redirect(authUrl);
-  } catch (error: any) {
-    console.error('Google auth error:', error);
-    res.status(500).json({
+    
+    console.error('Unlock account error:', error);
+    return res.status(500).json({
       success: false,
-      message: 'Failed to initiate Google authentication'
+      message: 'Internal server error'
     });
-    return;
   }
 };
 
-// Google OAuth - Callback handler
-export const googleCallback = async (req: Request, res: Response) => {
+// Confirm an unfamiliar device with the emailed code and finish signing in
+export const confirmDevice = async (req: Request, res: Response) => {
   try {
-    const { code } = req.query;
+    const validated = await confirmDeviceSchema.parseAsync({
+      body: req.body
+    });
 
-    if (!code || typeof code !== 'string') {
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-      return res.redirect(`${frontendUrl}/auth/error?message=${encodeURIComponent('Authorization code is required')}`);
-    }
+    const { challengeToken, code } = validated.body;
 
-    const clientId = process.env.GOOGLE_CLIENT_ID;
-    const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
-    
-    if (!clientId || !clientSecret) {
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-      return res.redirect(`${frontendUrl}/auth/error?message=${encodeURIComponent('Google OAuth is not configured')}`);
-    }
+    // Count this attempt against the challenge (limits guesses per login)
+    const attempt = await claimChallengeAttempt(challengeToken, 'device');
 
-    const googleClient = createGoogleClient();
-    
-    if (!googleClient) {
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-      return res.redirect(`${frontendUrl}/auth/error?message=${encodeURIComponent('Failed to initialize Google OAuth client')}`);
+    if (attempt.status === 'too_many_attempts') {
+      return res.status(429).json({
+        success: false,
+        message: 'Too many invalid codes. Please login again.',
+        error: 'DEVICE_CONFIRMATION_ATTEMPTS_EXCEEDED'
+      });
     }
 
-    // Exchange code for tokens
-    const { tokens } = await googleClient.getToken(code);
-    googleClient.setCredentials(tokens);
-
-    if (!tokens.id_token) {
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-      return res.redirect(`${frontendUrl}/auth/error?message=${encodeURIComponent('Failed to get ID token from Google')}`);
+    if (attempt.status === 'invalid') {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid or expired device confirmation. Please login again.'
+      });
     }
 
-    // Get user info from Google
-    const ticket = await googleClient.verifyIdToken({
-      idToken: tokens.id_token,
-      audience: clientId
-    });
+    const { challenge } = attempt;
+    const user = await User.findById(challenge.userId);
 
-    const payload = ticket.getPayload();
-    
-    if (!payload) {
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-      return res.redirect(`${frontendUrl}/auth/error?message=${encodeURIComponent('Failed to get user information from Google')}`);
+    if (!user || user.tokenVersion !== challenge.tokenVersion) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid or expired device confirmation. Please login again.'
+      });
     }
 
-    const { sub: googleId, email, name } = payload;
+    const throttle = await checkLoginThrottle(user.email, req.ip);
 
-    if (!email) {
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-      return res.redirect(`${frontendUrl}/auth/error?message=${encodeURIComponent('Email is required from Google account')}`);
+    if (!throttle.allowed) {
+      return sendThrottledResponse(res, throttle);
     }
 
-    // Check if user exists by googleId or email
-    let user = await User.findOne({
-      $or: [
-        { googleId },
-        { email: email.toLowerCase() }
-      ]
-    });
+    const result = await verifyEmailOtp(user._id, 'device', code, challenge._id);
 
-    if (user) {
-      // User exists - update googleId if not set
-      if (!user.googleId) {
-        user.googleId = googleId;
-        user.isEmailVerified = true; // Google emails are verified
-        await user.save();
-      }
-    } else {
-      // Create new user
-      user = await User.create({
-        name: name || 'Google User',
-        email: email.toLowerCase(),
-        googleId,
-        isEmailVerified: true, // Google emails are verified
-        role: 'user'
+    if (result.status !== 'ok') {
+      await recordLoginFailure(user.email, req.ip, user);
+      await recordAuditEvent({
+        type: 'login',
+        outcome: 'failure',
+        req,
+        targetUserId: user._id.toString(),
+        metadata: { method: 'device_confirmation', reason: 'invalid_code' }
+      });
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid or expired code'
       });
     }
 
-    // Generate JWT tokens
-    const accessToken = generateAccessToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-      tokenVersion: user.tokenVersion
-    });
-
-    const refreshToken = generateRefreshToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-      tokenVersion: user.tokenVersion
-    });
-
-    // Store refresh token in database
-    const refreshTokenExpires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    user.refreshToken = refreshToken;
-    user.refreshTokenExpires = refreshTokenExpires;
-    await user.save();
-
-    // Set tokens in cookies
-    res.cookie('accessToken', accessToken, getAccessTokenCookieOptions());
-    res.cookie('refreshToken', refreshToken, getCookieOptions());
-
-    // Redirect to frontend with tokens (or return JSON)
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-    const redirectUrl = `${frontendUrl}/auth/callback?accessToken=${accessToken}&refreshToken=${refreshToken}`;
-    
-    res.redirect(redirectUrl);
-  } catch (error: any) {
-    console.error('Google callback error:', error);
-    
-    // Redirect to frontend with error
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-    res.redirect(`${frontendUrl}/auth/error?message=${encodeURIComponent('Google authentication failed')}`);
-  }
-};
+    await clearLoginFailures(user.email, req.ip);
 
-// Enable 2FA - Generate secret and QR code
-export const enableTwoFactor = async (req: Request, res: Response) => {
-  try {
-    const userId = req.user?.id;
+    // A challenge can complete only one login
+    const consumed = await consumeChallenge(challenge);
 
-    if (!userId) {
+    if (!consumed) {
       return res.status(401).json({
         success: false,
-        message: 'Authentication required'
+        message: 'Invalid or expired device confirmation. Please login again.'
+      });
+    }
+
+    // Start a new device session (issues access and refresh tokens)
+    const { accessToken, refreshToken } = await createSession(user, req);
+
+    await recordAuditEvent({ type: 'login', req, actorId: user._id.toString(), metadata: { method: 'device_confirmation' } });
+
+    // The emailed code already told the user about this device: remember it without another alert
+    const device = await identifySignInDevice(user, req);
+    await rememberSignInDevice(user, req, { ...device, known: true });
+    setDeviceCookie(res, device.deviceToken);
+
+    // Set tokens in cookies
+    setAuthCookies(res, accessToken, refreshToken);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        isEmailVerified: user.isEmailVerified
+      },
+      accessToken,
+      refreshToken
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Confirm device error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Report a sign-in the user doesn't recognize ("this wasn't me" link from the new device email)
+export const reportSignIn = async (req: Request, res: Response) => {
+  try {
+    const validated = await reportSignInSchema.parseAsync({
+      body: req.body
+    });
+
+    // Signs the account out everywhere and emails a password reset link
+    const user = await reportUnrecognizedSignIn(validated.body.token);
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired link'
+      });
+    }
+
+    await recordAuditEvent({ type: 'sign_in_reported', req, targetUserId: user._id.toString() });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Your account has been signed out on all devices. Check your email for a link to reset your password.'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Report sign-in error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Request a passwordless sign-in link
+export const requestMagicLink = async (req: Request, res: Response) => {
+  try {
+    // Validate request data using schema
+    const validated = await magicLinkSchema.parseAsync({
+      body: req.body
+    });
+    
+    const { email } = validated.body;
+    
+    // Find user by email
+    const user = await User.findOne({ email });
+    
+    // Always return success message (security best practice - don't reveal if email exists)
+    // Unverified accounts can't sign in yet, so no link is sent to them
+    if (user && user.isEmailVerified) {
+      // Generate single-use sign-in token
+      const magicLinkToken = crypto.randomBytes(32).toString('hex');
+      const magicLinkExpires = new Date(Date.now() + MAGIC_LINK_LIFETIME_MINUTES * 60 * 1000);
+      
+      // Save token hash to user (the plain token only goes out by email)
+      user.magicLinkToken = hashSecret(magicLinkToken);
+      user.magicLinkExpires = magicLinkExpires;
+      await user.save();
+      
+      // Send sign-in link
+      try {
+        await sendMagicLinkEmail(email, magicLinkToken, user.name, MAGIC_LINK_LIFETIME_MINUTES);
+        console.log(`✅ Magic link email sent to ${email}`);
+      } catch (emailError: any) {
+        console.error('❌ Failed to send magic link email:', emailError.message);
+        // Don't fail the request if email fails - user can request again
+      }
+    }
+    
+    // Always return success (security: don't reveal if email exists)
+    return res.status(200).json({
+      success: true,
+      message: 'If an account exists with this email, a sign-in link has been sent'
+    });
+  } catch (error: any) {
+    // Handle validation errors
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+    
+    console.error('Magic link request error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Sign in with a magic link
+export const verifyMagicLink = async (req: Request, res: Response) => {
+  try {
+    // Validate request data using schema
+    const validated = await verifyMagicLinkSchema.parseAsync({
+      body: req.body
+    });
+    
+    const { token } = validated.body;
+    const tokenQuery = {
+      magicLinkToken: hashSecret(token),
+      magicLinkExpires: { $gt: new Date() }
+    };
+    
+    const linkUser = await User.findOne(tokenQuery);
+    
+    if (!linkUser) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired sign-in link'
+      });
+    }
+    
+    // Check if email is verified - REQUIRED for login
+    if (!linkUser.isEmailVerified) {
+      return res.status(403).json({
+        success: false,
+        message: 'Please verify your email before logging in. Check your inbox for the verification email.',
+        error: 'EMAIL_NOT_VERIFIED'
+      });
+    }
+    
+    // Respect account lockout before spending the link (the link replaces the password step only)
+    const throttle = await checkLoginThrottle(linkUser.email, req.ip);
+    
+    if (!throttle.allowed) {
+      return sendThrottledResponse(res, throttle);
+    }
+    
+    // Atomically take the token so the link works only once
+    const user = await User.findOneAndUpdate(
+      tokenQuery,
+      { $unset: { magicLinkToken: 1, magicLinkExpires: 1 } },
+      { new: true }
+    );
+    
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired sign-in link'
+      });
+    }
+    
+    // Check if 2FA is enabled
+    if (user.isTwoFactorEnabled) {
+      // Issue a short-lived challenge bound to this sign-in step
+      const challenge = await startTwoFactorChallenge(user);
+      
+      return res.status(200).json({
+        success: true,
+        message: '2FA verification required',
+        requiresTwoFactor: true,
+        ...challenge
+      });
+    }
+    
+    // Unfamiliar device: optionally confirm it with an emailed code before issuing tokens
+    const device = await identifySignInDevice(user, req);
+    
+    if (!device.known && DEVICE_CONFIRMATION_REQUIRED) {
+      const confirmation = await startDeviceConfirmation(user);
+      
+      return res.status(200).json({
+        success: true,
+        message: 'New device. Enter the code we emailed you to continue.',
+        requiresDeviceConfirmation: true,
+        ...confirmation
+      });
+    }
+    
+    // A completed sign-in resets the failure count, as with a password
+    await clearLoginFailures(user.email, req.ip);
+    
+    // Start a new device session (issues access and refresh tokens)
+    const { accessToken, refreshToken } = await createSession(user, req);
+    
+    await recordAuditEvent({ type: 'login', req, actorId: user._id.toString(), metadata: { method: 'magic_link' } });
+    
+    // Remember the device (emails a new-device alert if it is unfamiliar)
+    await rememberSignInDevice(user, req, device);
+    setDeviceCookie(res, device.deviceToken);
+    
+    // Set tokens in cookies
+    setAuthCookies(res, accessToken, refreshToken);
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        isEmailVerified: user.isEmailVerified
+      },
+      accessToken,
+      refreshToken
+    });
+  } catch (error: any) {
+    // Handle validation errors
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+    
+    console.error('Magic link sign-in error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Enable 2FA - Generate secret and QR code
+export const enableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
       });
     }
 
@@ -938,8 +1400,8 @@ export const enableTwoFactor = async (req: Request, res: Response) => {
       });
     }
 
-    // Check if 2FA is already enabled
-    if (user.isTwoFactorEnabled) {
+    // Check if authenticator app 2FA is already enabled
+    if (getTwoFactorMethods(user).includes('totp')) {
       return res.status(400).json({
         success: false,
         message: '2FA is already enabled'
@@ -952,8 +1414,8 @@ export const enableTwoFactor = async (req: Request, res: Response) => {
       'NodeJS Mystery'
     );
 
-    // Store secret temporarily (not enabled yet - user needs to verify)
-    user.twoFactorSecret = secret;
+    // Store encrypted secret temporarily (not enabled yet - user needs to verify)
+    user.twoFactorSecret = encryptTwoFactorSecret(secret, user._id.toString());
     await user.save();
 
     return res.status(200).json({
@@ -1008,7 +1470,7 @@ export const verifyTwoFactorSetup = async (req: Request, res: Response) => {
     }
 
     // Verify token
-    const isValid = verifyTwoFactorToken(token, user.twoFactorSecret);
+    const isValid = verifyTwoFactorToken(token, user.twoFactorSecret, user._id.toString());
 
     if (!isValid) {
       return res.status(400).json({
@@ -1017,19 +1479,28 @@ export const verifyTwoFactorSetup = async (req: Request, res: Response) => {
       });
     }
 
-    // Enable 2FA and generate backup codes
+    // Enable TOTP (backup codes are issued with the first factor)
+    const methods = getTwoFactorMethods(user);
+    const backupCodes = !user.isTwoFactorEnabled ? generateBackupCodes(10) : undefined;
+
+    user.twoFactorMethods = [...methods, 'totp'];
     user.isTwoFactorEnabled = true;
-    const backupCodes = generateBackupCodes(10);
-    user.twoFactorBackupCodes = backupCodes;
+    if (backupCodes) {
+      user.twoFactorBackupCodes = hashBackupCodes(backupCodes); // Only hashes are stored
+    }
     await user.save();
 
+    await recordAuditEvent({ type: 'two_factor_enabled', req, metadata: { method: 'totp' } });
+
     return res.status(200).json({
       success: true,
       message: '2FA enabled successfully',
       data: {
         backupCodes // User should save these codes securely
       },
-      warning: 'Please save these backup codes in a safe place. You will need them if you lose access to your authenticator app.'
+      warning: backupCodes
+        ? 'Please save these backup codes in a safe place. You will need them if you lose access to your authenticator app.'
+        : undefined
     });
   } catch (error: any) {
     if (error.name === 'ZodError') {
@@ -1058,22 +1529,34 @@ export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
       body: req.body
     });
 
-    const { token, backupCode } = validated.body;
-    const { userId } = req.body; // Should be sent from frontend after initial login
+    const { challengeToken, method = 'totp', token, backupCode } = validated.body;
 
-    if (!userId) {
-      return res.status(400).json({
+    // Verify the challenge from the password step and count this attempt
+    const attempt = await claimChallengeAttempt(challengeToken, 'two_factor');
+
+    if (attempt.status === 'too_many_attempts') {
+      return res.status(429).json({
+        success: false,
+        message: 'Too many invalid 2FA attempts. Please login again.',
+        error: 'TWO_FACTOR_ATTEMPTS_EXCEEDED'
+      });
+    }
+
+    if (attempt.status === 'invalid') {
+      return res.status(401).json({
         success: false,
-        message: 'User ID is required'
+        message: 'Invalid or expired 2FA challenge. Please login again.'
       });
     }
 
-    const user = await User.findById(userId).select('+twoFactorSecret +twoFactorBackupCodes');
+    const { challenge } = attempt;
+    const user = await User.findById(challenge.userId).select('+twoFactorSecret +twoFactorBackupCodes');
 
-    if (!user) {
-      return res.status(404).json({
+    // Password changes (tokenVersion bump) invalidate pending challenges
+    if (!user || user.tokenVersion !== challenge.tokenVersion) {
+      return res.status(401).json({
         success: false,
-        message: 'User not found'
+        message: 'Invalid or expired 2FA challenge. Please login again.'
       });
     }
 
@@ -1084,55 +1567,90 @@ export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
       });
     }
 
+    const throttle = await checkLoginThrottle(user.email, req.ip);
+
+    if (!throttle.allowed) {
+      return sendThrottledResponse(res, throttle);
+    }
+
+    const methods = getTwoFactorMethods(user);
     let isValid = false;
+    let usedMethod: string | undefined;
 
     // Check backup code first (if provided)
     if (backupCode && user.twoFactorBackupCodes && user.twoFactorBackupCodes.length > 0) {
-      isValid = verifyBackupCode(backupCode, user.twoFactorBackupCodes);
+      const matchIndex = findBackupCode(backupCode, user.twoFactorBackupCodes);
+      isValid = matchIndex !== -1;
+      usedMethod = 'backup_code';
       
       if (isValid) {
         // Remove used backup code
-        user.twoFactorBackupCodes = user.twoFactorBackupCodes.filter(
-          code => code.toUpperCase() !== backupCode.toUpperCase().trim()
-        );
+        user.twoFactorBackupCodes = user.twoFactorBackupCodes.filter((_code, index) => index !== matchIndex);
         await user.save();
       }
-    } else if (token && user.twoFactorSecret) {
+    } else if (token && method === 'email' && methods.includes('email')) {
+      // Verify code sent by email for this challenge
+      const result = await verifyEmailOtp(user._id, 'login', token, challenge._id);
+      isValid = result.status === 'ok';
+      usedMethod = 'email';
+    } else if (token && methods.includes('totp') && user.twoFactorSecret) {
       // Verify TOTP token
-      isValid = verifyTwoFactorToken(token, user.twoFactorSecret);
+      isValid = verifyTwoFactorToken(token, user.twoFactorSecret, user._id.toString());
+      usedMethod = 'totp';
     }
 
     if (!isValid) {
+      await recordLoginFailure(user.email, req.ip, user);
+      await recordAuditEvent({
+        type: 'two_factor_verified',
+        outcome: 'failure',
+        req,
+        targetUserId: user._id.toString(),
+        metadata: { method: usedMethod }
+      });
       return res.status(401).json({
         success: false,
         message: 'Invalid 2FA token or backup code'
       });
     }
 
-    // Generate JWT tokens
-    const accessToken = generateAccessToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-      tokenVersion: user.tokenVersion
-    });
+    // A challenge can complete only one login
+    const consumed = await consumeChallenge(challenge);
 
-    const refreshToken = generateRefreshToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-      tokenVersion: user.tokenVersion
-    });
+    if (!consumed) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid or expired 2FA challenge. Please login again.'
+      });
+    }
 
-    // Store refresh token in database
-    const refreshTokenExpires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    user.refreshToken = refreshToken;
-    user.refreshTokenExpires = refreshTokenExpires;
-    await user.save();
+    // Unfamiliar device: optionally confirm it with an emailed code before issuing tokens
+    const device = await identifySignInDevice(user, req);
+
+    if (!device.known && DEVICE_CONFIRMATION_REQUIRED) {
+      const confirmation = await startDeviceConfirmation(user);
+
+      return res.status(200).json({
+        success: true,
+        message: 'New device. Enter the code we emailed you to continue.',
+        requiresDeviceConfirmation: true,
+        ...confirmation
+      });
+    }
+
+    await clearLoginFailures(user.email, req.ip);
+
+    // Start a new device session (issues access and refresh tokens)
+    const { accessToken, refreshToken } = await createSession(user, req);
+
+    await recordAuditEvent({ type: 'two_factor_verified', req, actorId: user._id.toString(), metadata: { method: usedMethod } });
+
+    // Remember the device (emails a new-device alert if it is unfamiliar)
+    await rememberSignInDevice(user, req, device);
+    setDeviceCookie(res, device.deviceToken);
 
     // Set tokens in cookies
-    res.cookie('accessToken', accessToken, getAccessTokenCookieOptions());
-    res.cookie('refreshToken', refreshToken, getCookieOptions());
+    setAuthCookies(res, accessToken, refreshToken);
 
     return res.status(200).json({
       success: true,
@@ -1174,7 +1692,7 @@ export const disableTwoFactor = async (req: Request, res: Response) => {
       body: req.body
     });
 
-    const { password, token } = validated.body;
+    const { password, method, token } = validated.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -1200,6 +1718,13 @@ export const disableTwoFactor = async (req: Request, res: Response) => {
       });
     }
 
+    if (method && !getTwoFactorMethods(user).includes(method)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This 2FA method is not enabled for your account'
+      });
+    }
+
     // Verify password
     if (!user.password) {
       return res.status(400).json({
@@ -1208,9 +1733,17 @@ export const disableTwoFactor = async (req: Request, res: Response) => {
       });
     }
 
+    const throttle = await checkLoginThrottle(user.email, req.ip);
+
+    if (!throttle.allowed) {
+      return sendThrottledResponse(res, throttle);
+    }
+
     const isPasswordValid = await comparePassword(password, user.password);
 
     if (!isPasswordValid) {
+      await recordLoginFailure(user.email, req.ip, user);
+      await recordAuditEvent({ type: 'two_factor_disabled', outcome: 'failure', req, metadata: { reason: 'invalid_password' } });
       return res.status(401).json({
         success: false,
         message: 'Invalid password'
@@ -1219,8 +1752,10 @@ export const disableTwoFactor = async (req: Request, res: Response) => {
 
     // If token is provided, verify it (optional extra security)
     if (token && user.twoFactorSecret) {
-      const isValid = verifyTwoFactorToken(token, user.twoFactorSecret);
+      const isValid = verifyTwoFactorToken(token, user.twoFactorSecret, user._id.toString());
       if (!isValid) {
+        await recordLoginFailure(user.email, req.ip, user);
+        await recordAuditEvent({ type: 'two_factor_disabled', outcome: 'failure', req, metadata: { reason: 'invalid_token' } });
         return res.status(401).json({
           success: false,
           message: 'Invalid 2FA token'
@@ -1228,15 +1763,44 @@ export const disableTwoFactor = async (req: Request, res: Response) => {
       }
     }
 
-    // Disable 2FA
-    user.isTwoFactorEnabled = false;
-    user.twoFactorSecret = undefined;
-    user.twoFactorBackupCodes = undefined;
+    // The password was right: the attempt counted by checkLoginThrottle was not a failure
+    await clearLoginFailures(user.email, req.ip);
+
+    // Remove one factor, or all of them (passkeys are removed separately and keep 2FA on)
+    const remaining = method ? getTwoFactorMethods(user).filter((enrolled) => enrolled !== method) : [];
+    const hasPasskey = Boolean(await Passkey.exists({ userId: user._id }));
+    const stillEnabled = remaining.length > 0 || hasPasskey;
+
+    if (!method || method === 'totp') {
+      user.twoFactorSecret = undefined;
+    }
+    if (!method || method === 'email') {
+      await clearEmailOtps(user._id);
+    }
+
+    user.twoFactorMethods = remaining;
+    const keepsPreferred = user.preferredTwoFactorMethod === 'webauthn'
+      ? hasPasskey
+      : remaining.some((enrolled) => enrolled === user.preferredTwoFactorMethod);
+    if (!keepsPreferred) {
+      user.preferredTwoFactorMethod = undefined;
+    }
+
+    if (!stillEnabled) {
+      // Disable 2FA
+      user.isTwoFactorEnabled = false;
+      user.twoFactorBackupCodes = undefined;
+    }
     await user.save();
 
+    await recordAuditEvent({ type: 'two_factor_disabled', req, metadata: { method: method || 'all', remaining } });
+
     return res.status(200).json({
       success: true,
-      message: '2FA disabled successfully'
+      message: stillEnabled ? '2FA method removed successfully' : '2FA disabled successfully',
+      data: {
+        methods: remaining
+      }
     });
   } catch (error: any) {
     if (error.name === 'ZodError') {
@@ -1258,3 +1822,284 @@ export const disableTwoFactor = async (req: Request, res: Response) => {
   }
 };
 
+
+// Enable email 2FA - Send a code to confirm the address receives it
+export const enableEmailTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (getTwoFactorMethods(user).includes('email')) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email 2FA is already enabled'
+      });
+    }
+
+    const result = await sendEmailOtp(user, 'setup');
+
+    if (result.status === 'cooldown') {
+      res.set('Retry-After', String(result.retryAfter));
+      return res.status(429).json({
+        success: false,
+        message: 'A code was sent recently. Please wait before requesting another one.',
+        retryAfter: result.retryAfter
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'We sent a 6-digit code to your email',
+      data: {
+        expiresIn: result.expiresIn
+      }
+    });
+  } catch (error: any) {
+    console.error('Enable email 2FA error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Verify email 2FA setup - Verify emailed code to enable the factor
+export const verifyEmailTwoFactorSetup = async (req: Request, res: Response) => {
+  try {
+    const validated = await verifyEmailTwoFactorSetupSchema.parseAsync({
+      body: req.body
+    });
+
+    const { code } = validated.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const result = await verifyEmailOtp(user._id, 'setup', code);
+
+    if (result.status === 'too_many_attempts') {
+      return res.status(429).json({
+        success: false,
+        message: 'Too many invalid codes. Please request a new one.'
+      });
+    }
+
+    if (result.status !== 'ok') {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired code. Please try again.'
+      });
+    }
+
+    // Enable email codes (backup codes are issued with the first factor)
+    const methods = getTwoFactorMethods(user);
+    const backupCodes = !user.isTwoFactorEnabled ? generateBackupCodes(10) : undefined;
+
+    if (!methods.includes('email')) {
+      user.twoFactorMethods = [...methods, 'email'];
+    }
+    user.isTwoFactorEnabled = true;
+    if (backupCodes) {
+      user.twoFactorBackupCodes = hashBackupCodes(backupCodes); // Only hashes are stored
+    }
+    await user.save();
+
+    await recordAuditEvent({ type: 'two_factor_enabled', req, metadata: { method: 'email' } });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Email 2FA enabled successfully',
+      data: {
+        backupCodes // User should save these codes securely
+      },
+      warning: backupCodes
+        ? 'Please save these backup codes in a safe place. You will need them if you lose access to your email.'
+        : undefined
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Verify email 2FA setup error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Send (or resend) a 2FA code by email during login
+export const sendTwoFactorEmailCode = async (req: Request, res: Response) => {
+  try {
+    const validated = await sendTwoFactorEmailCodeSchema.parseAsync({
+      body: req.body
+    });
+
+    const { challengeToken } = validated.body;
+
+    const challenge = await findPendingChallenge(challengeToken, 'two_factor');
+
+    if (!challenge) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid or expired 2FA challenge. Please login again.'
+      });
+    }
+
+    const user = await User.findById(challenge.userId);
+
+    if (!user || user.tokenVersion !== challenge.tokenVersion) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid or expired 2FA challenge. Please login again.'
+      });
+    }
+
+    if (!getTwoFactorMethods(user).includes('email')) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email 2FA is not enabled for this account'
+      });
+    }
+
+    const result = await sendEmailOtp(user, 'login', challenge._id);
+
+    if (result.status === 'cooldown') {
+      res.set('Retry-After', String(result.retryAfter));
+      return res.status(429).json({
+        success: false,
+        message: 'A code was sent recently. Please wait before requesting another one.',
+        retryAfter: result.retryAfter
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'We sent a 6-digit code to your email',
+      data: {
+        expiresIn: result.expiresIn
+      }
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Send 2FA email code error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Set the second factor offered first at login
+export const setPreferredTwoFactorMethod = async (req: Request, res: Response) => {
+  try {
+    const validated = await preferredTwoFactorMethodSchema.parseAsync({
+      body: req.body
+    });
+
+    const { method } = validated.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const isEnrolled = method === 'webauthn'
+      ? user.isTwoFactorEnabled && Boolean(await Passkey.exists({ userId: user._id }))
+      : getTwoFactorMethods(user).includes(method);
+
+    if (!isEnrolled) {
+      return res.status(400).json({
+        success: false,
+        message: 'This 2FA method is not enabled for your account'
+      });
+    }
+
+    user.preferredTwoFactorMethod = method;
+    await user.save();
+
+    return res.status(200).json({
+      success: true,
+      message: 'Preferred 2FA method updated',
+      data: {
+        preferredMethod: method
+      }
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Set preferred 2FA method error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -15,7 +15,7 @@ export const registerSchema = z.object({
       .trim(),
     password: z
       .string()
-      .min(6, 'Password must be at least 6 characters')
+      .min(1, 'Password is required') // Strength is checked by lib/passwordPolicy
   })
 });
 
@@ -50,7 +50,7 @@ export const resetPasswordSchema = z.object({
     token: z.string().min(1, 'Reset token is required'),
     password: z
       .string()
-      .min(6, 'Password must be at least 6 characters')
+      .min(1, 'Password is required') // Strength is checked by lib/passwordPolicy
   })
 });
 
@@ -62,7 +62,7 @@ export const changePasswordSchema = z.object({
       .min(1, 'Current password is required'),
     newPassword: z
       .string()
-      .min(6, 'New password must be at least 6 characters')
+      .min(1, 'New password is required') // Strength is checked by lib/passwordPolicy
   })
 });
 
@@ -73,6 +73,13 @@ export const verifyEmailSchema = z.object({
   })
 });
 
+// Confirm or cancel email change schema
+export const emailChangeTokenSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Token is required')
+  })
+});
+
 // Resend verification email schema
 export const resendVerificationSchema = z.object({
   body: z.object({
@@ -84,6 +91,46 @@ export const resendVerificationSchema = z.object({
   })
 });
 
+// Unlock account schema
+export const unlockAccountSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Unlock token is required')
+  })
+});
+
+// Confirm new device schema
+export const confirmDeviceSchema = z.object({
+  body: z.object({
+    challengeToken: z.string().min(1, 'Challenge token is required'), // Returned by login
+    code: z.string().length(6, 'Code must be 6 digits').regex(/^\d+$/, 'Code must contain only numbers')
+  })
+});
+
+// Report sign-in schema ("this wasn't me" link from the new device email)
+export const reportSignInSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Token is required')
+  })
+});
+
+// Magic link request schema
+export const magicLinkSchema = z.object({
+  body: z.object({
+    email: z
+      .string()
+      .email('Please provide a valid email')
+      .toLowerCase()
+      .trim()
+  })
+});
+
+// Magic link sign-in schema
+export const verifyMagicLinkSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Sign-in token is required')
+  })
+});
+
 // Refresh token schema
 export const refreshTokenSchema = z.object({
   body: z.object({
@@ -106,8 +153,13 @@ export const verifyTwoFactorSetupSchema = z.object({
 // Verify 2FA login schema
 export const verifyTwoFactorLoginSchema = z.object({
   body: z.object({
-    token: z.string().length(6, '2FA token must be 6 digits').regex(/^\d+$/, '2FA token must contain only numbers'),
+    challengeToken: z.string().min(1, '2FA challenge token is required'), // Returned by login
+    method: z.enum(['totp', 'email']).optional(), // Which factor issued the token (default: totp)
+    token: z.string().length(6, '2FA token must be 6 digits').regex(/^\d+$/, '2FA token must contain only numbers').optional(),
     backupCode: z.string().optional() // Optional backup code
+  }).refine((body) => body.token || body.backupCode, {
+    message: '2FA token or backup code is required',
+    path: ['token']
   })
 });
 
@@ -115,6 +167,30 @@ export const verifyTwoFactorLoginSchema = z.object({
 export const disableTwoFactorSchema = z.object({
   body: z.object({
     password: z.string().min(1, 'Password is required'),
+    method: z.enum(['totp', 'email']).optional(), // Remove one factor only (default: turn 2FA off)
     token: z.string().length(6, '2FA token must be 6 digits').regex(/^\d+$/, '2FA token must contain only numbers').optional()
   })
 });
+
+// Verify email 2FA setup schema
+export const verifyEmailTwoFactorSetupSchema = z.object({
+  body: z.object({
+    code: z.string().length(6, 'Code must be 6 digits').regex(/^\d+$/, 'Code must contain only numbers')
+  })
+});
+
+// Send 2FA email code schema
+export const sendTwoFactorEmailCodeSchema = z.object({
+  body: z.object({
+    challengeToken: z.string().min(1, '2FA challenge token is required') // Returned by login
+  })
+});
+
+// Preferred 2FA method schema
+export const preferredTwoFactorMethodSchema = z.object({
+  body: z.object({
+    method: z.enum(['totp', 'email', 'webauthn'], {
+      message: 'Method must be totp, email or webauthn'
+    })
+  })
+});
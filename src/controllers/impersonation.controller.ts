@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { startImpersonation, stopImpersonation } from '../services/impersonation.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { startImpersonationSchema, stopImpersonationSchema } from './impersonation.schema';
+
+/**
+ * Start impersonating a user (Admin only)
+ * Returns an access token for the user, marked with the admin's identity.
+ * Use it as a Bearer token; it works on task and profile routes only.
+ * POST /api/admin/users/:id/impersonate
+ */
+export const impersonateUser = async (req: Request, res: Response) => {
+  try {
+    const validated = await startImpersonationSchema.parseAsync({
+      params: req.params,
+      body: req.body
+    });
+
+    const { id } = validated.params;
+    const { reason } = validated.body;
+    const adminId = req.user?.id;
+
+    if (!adminId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    if (id === adminId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot impersonate yourself'
+      });
+    }
+
+    const result = await startImpersonation(adminId, id);
+
+    if (result.status === 'not_found') {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (result.status === 'target_is_admin') {
+      return res.status(403).json({
+        success: false,
+        message: 'Admin accounts cannot be impersonated'
+      });
+    }
+
+    await recordAuditEvent({
+      type: 'impersonation_started',
+      req,
+      targetUserId: id,
+      metadata: { reason, tokenId: result.tokenId, expiresAt: result.expiresAt }
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Impersonation started',
+      data: {
+        userId: id,
+        expiresAt: result.expiresAt
+      },
+      accessToken: result.accessToken
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Impersonate user error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Stop an impersonation before it expires (Admin only)
+ * POST /api/admin/impersonation/stop
+ */
+export const endImpersonation = async (req: Request, res: Response) => {
+  try {
+    const validated = await stopImpersonationSchema.parseAsync({
+      body: req.body
+    });
+
+    const stopped = await stopImpersonation(validated.body.token);
+
+    if (!stopped) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired impersonation token'
+      });
+    }
+
+    await recordAuditEvent({
+      type: 'impersonation_stopped',
+      req,
+      targetUserId: stopped.userId,
+      metadata: { tokenId: stopped.jti, startedBy: stopped.act?.sub }
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Impersonation stopped'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('End impersonation error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
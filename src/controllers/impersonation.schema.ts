@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+// Start impersonation schema
+export const startImpersonationSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID')
+  }),
+  body: z.object({
+    reason: z
+      .string()
+      .min(3, 'Reason is required (e.g. the support ticket)')
+      .max(500, 'Reason cannot exceed 500 characters')
+      .trim()
+  })
+});
+
+// Stop impersonation schema
+export const stopImpersonationSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Impersonation token is required')
+  })
+});
@@ -0,0 +1,541 @@
+import { Request, Response } from 'express';
+import User, { IUser } from '../models/user.model';
+import { getOAuthProvider, listOAuthProviders } from '../config/oauth';
+import { createAuthorizationRequest, fetchOAuthProfile, safeEqual } from '../lib/oauth';
+import { generateOAuthStateToken, verifyOAuthStateToken } from '../lib/jwt';
+import {
+  setAuthCookies,
+  setDeviceCookie,
+  setOAuthStateCookie,
+  getOAuthStateCookie,
+  clearOAuthStateCookie,
+  setOAuthLinkCookie,
+  getOAuthLinkCookie,
+  clearOAuthLinkCookie
+} from '../lib/cookies';
+import { comparePassword } from '../lib/password';
+import { createSession } from '../services/session.service';
+import {
+  signInWithOAuth,
+  findIdentityLink,
+  confirmIdentityLinkWithPassword,
+  confirmIdentityLinkWithEmail,
+  listIdentities,
+  unlinkIdentity
+} from '../services/identity.service';
+import { createExchangeCode, redeemExchangeCode } from '../services/exchangeCode.service';
+import { startTwoFactorChallenge } from '../services/twoFactorChallenge.service';
+import { checkLoginThrottle, recordLoginFailure, clearLoginFailures } from '../services/lockout.service';
+import { recordAuditEvent } from '../services/audit.service';
+import {
+  DEVICE_CONFIRMATION_REQUIRED,
+  identifySignInDevice,
+  rememberSignInDevice,
+  startDeviceConfirmation
+} from '../services/knownDevice.service';
+import {
+  exchangeCodeSchema,
+  confirmLinkWithPasswordSchema,
+  confirmLinkWithEmailSchema,
+  identityIdParamsSchema
+} from './oauth.schema';
+
+// Sign the user in (or ask for their second factor or a device confirmation) after an OAuth step
+const sendSignInResponse = async (req: Request, res: Response, user: IUser) => {
+  if (user.isTwoFactorEnabled) {
+    // Issue a short-lived challenge bound to this sign-in step
+    const challenge = await startTwoFactorChallenge(user);
+
+    return res.status(200).json({
+      success: true,
+      message: '2FA verification required',
+      requiresTwoFactor: true,
+      ...challenge
+    });
+  }
+
+  // Unfamiliar device: optionally confirm it with an emailed code before issuing tokens
+  const device = await identifySignInDevice(user, req);
+
+  if (!device.known && DEVICE_CONFIRMATION_REQUIRED) {
+    const confirmation = await startDeviceConfirmation(user);
+
+    return res.status(200).json({
+      success: true,
+      message: 'New device. Enter the code we emailed you to continue.',
+      requiresDeviceConfirmation: true,
+      ...confirmation
+    });
+  }
+
+  // Only a completed sign-in resets the failure count (a pending 2FA or
+  // device confirmation must not, or its codes could be guessed without limit)
+  await clearLoginFailures(user.email, req.ip);
+
+  // Start a new device session (issues access and refresh tokens)
+  const { accessToken, refreshToken } = await createSession(user, req);
+
+  await recordAuditEvent({ type: 'login', req, actorId: user._id.toString(), metadata: { method: 'oauth' } });
+
+  // Remember the device (emails a new-device alert if it is unfamiliar)
+  await rememberSignInDevice(user, req, device);
+  setDeviceCookie(res, device.deviceToken);
+
+  // Set tokens in cookies
+  setAuthCookies(res, accessToken, refreshToken);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Login successful',
+    data: {
+      id: user._id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      isEmailVerified: user.isEmailVerified
+    },
+    accessToken,
+    refreshToken
+  });
+};
+
+// Send the browser to the frontend error page
+const redirectToAuthError = (res: Response, message: string) => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return res.redirect(`${frontendUrl}/auth/error?message=${encodeURIComponent(message)}`);
+};
+
+/**
+ * List enabled sign-in providers
+ * GET /api/auth/oauth
+ */
+export const getOAuthProviders = async (_req: Request, res: Response) => {
+  return res.status(200).json({
+    success: true,
+    data: listOAuthProviders().map((provider) => ({
+      name: provider.name,
+      displayName: provider.displayName,
+      url: `/api/auth/oauth/${provider.name}`
+    }))
+  });
+};
+
+/**
+ * Start sign-in with a provider
+ * GET /api/auth/oauth/:provider
+ */
+export const startOAuth = async (req: Request, res: Response) => {
+  try {
+    const provider = getOAuthProvider(String(req.params.provider));
+
+    if (!provider) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unknown or unconfigured sign-in provider'
+      });
+    }
+
+    const { url, state, nonce, codeVerifier } = await createAuthorizationRequest(provider);
+
+    // Bind the round trip to this browser: the callback must present the same
+    // state, and the verifier and nonce never leave the server-signed cookie
+    setOAuthStateCookie(res, generateOAuthStateToken({
+      provider: provider.name,
+      state,
+      nonce,
+      codeVerifier
+    }));
+
+    return res.redirect(url);
+  } catch (error: any) {
+    console.error('OAuth start error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to initiate authentication'
+    });
+  }
+};
+
+/**
+ * Provider callback: sign the user in and return to the frontend
+ * GET /api/auth/oauth/:provider/callback
+ */
+export const oauthCallback = async (req: Request, res: Response) => {
+  const provider = getOAuthProvider(String(req.params.provider));
+
+  if (!provider) {
+    return redirectToAuthError(res, 'Unknown sign-in provider');
+  }
+
+  try {
+    const { code, state, error } = req.query;
+
+    // State is single-use: drop the cookie whatever happens next
+    const stateCookie = getOAuthStateCookie(req);
+    clearOAuthStateCookie(res);
+
+    // The user cancelled or the provider refused
+    if (error) {
+      return redirectToAuthError(res, `${provider.displayName} sign-in was cancelled`);
+    }
+
+    if (!code || typeof code !== 'string') {
+      return redirectToAuthError(res, 'Authorization code is required');
+    }
+
+    // Fail closed unless this browser started the flow (prevents login CSRF)
+    const expected = stateCookie ? verifyOAuthStateToken(stateCookie) : null;
+
+    if (
+      !expected ||
+      expected.provider !== provider.name ||
+      typeof state !== 'string' ||
+      !safeEqual(state, expected.state)
+    ) {
+      return redirectToAuthError(res, 'Sign-in request expired or did not match. Please try again.');
+    }
+
+    const profile = await fetchOAuthProfile(provider, code, expected.codeVerifier);
+
+    // The ID token must have been issued for this authorization request
+    if (provider.type === 'oidc' && (!profile.nonce || !safeEqual(profile.nonce, expected.nonce))) {
+      return redirectToAuthError(res, 'Sign-in request expired or did not match. Please try again.');
+    }
+
+    const result = await signInWithOAuth(provider, profile);
+
+    if (result.status === 'email_required') {
+      return redirectToAuthError(res, `Email is required from ${provider.displayName} account`);
+    }
+
+    if (result.status === 'email_unverified') {
+      return redirectToAuthError(res, `Please verify your email with ${provider.displayName} before signing in`);
+    }
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+    // An account with this email already exists: its owner has to approve the link
+    // (the link token goes in an httpOnly cookie, not the URL, to keep it out of history and logs)
+    if (result.status === 'link_required') {
+      setOAuthLinkCookie(res, result.linkToken);
+      return res.redirect(`${frontendUrl}/auth/link-account?provider=${provider.name}`);
+    }
+
+    // Redirect to frontend with a short-lived code; tokens are issued by POST /api/auth/exchange
+    const exchangeCode = await createExchangeCode(result.user);
+
+    return res.redirect(`${frontendUrl}/auth/callback?code=${encodeURIComponent(exchangeCode)}`);
+  } catch (error: any) {
+    console.error(`OAuth callback error (${provider.name}):`, error);
+    return redirectToAuthError(res, `${provider.displayName} authentication failed`);
+  }
+};
+
+/**
+ * Swap the code from the OAuth redirect for tokens
+ * POST /api/auth/exchange
+ */
+export const exchangeCode = async (req: Request, res: Response) => {
+  try {
+    const validated = await exchangeCodeSchema.parseAsync({
+      body: req.body
+    });
+
+    const { code } = validated.body;
+
+    const user = await redeemExchangeCode(code);
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired sign-in code. Please sign in again.'
+      });
+    }
+
+    // A locked account can't sign in through a provider either
+    const throttle = await checkLoginThrottle(user.email, req.ip);
+
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfter));
+      return res.status(429).json({
+        success: false,
+        message: 'Too many failed attempts. Please wait before trying again.',
+        error: throttle.reason === 'locked' ? 'ACCOUNT_LOCKED' : 'TOO_MANY_ATTEMPTS',
+        retryAfter: throttle.retryAfter
+      });
+    }
+
+    return sendSignInResponse(req, res, user);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Exchange code error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Confirm a pending account link with the existing account's password
+ * POST /api/auth/oauth/link/confirm
+ */
+export const confirmLinkWithPassword = async (req: Request, res: Response) => {
+  try {
+    const validated = await confirmLinkWithPasswordSchema.parseAsync({
+      body: req.body
+    });
+
+    const { password } = validated.body;
+
+    const linkToken = getOAuthLinkCookie(req);
+    const link = linkToken ? await findIdentityLink(linkToken) : null;
+
+    if (!link) {
+      clearOAuthLinkCookie(res);
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired link request. Please sign in again.'
+      });
+    }
+
+    const user = await User.findById(link.userId).select('+password');
+
+    if (!user || !user.password) {
+      return res.status(400).json({
+        success: false,
+        message: 'This account has no password. Use the link we emailed you to confirm.'
+      });
+    }
+
+    const throttle = await checkLoginThrottle(user.email, req.ip);
+
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfter));
+      return res.status(429).json({
+        success: false,
+        message: 'Too many failed attempts. Please wait before trying again.',
+        error: throttle.reason === 'locked' ? 'ACCOUNT_LOCKED' : 'TOO_MANY_ATTEMPTS',
+        retryAfter: throttle.retryAfter
+      });
+    }
+
+    const isPasswordValid = await comparePassword(password, user.password);
+
+    if (!isPasswordValid) {
+      await recordLoginFailure(user.email, req.ip, user);
+      await recordAuditEvent({
+        type: 'identity_linked',
+        outcome: 'failure',
+        req,
+        targetUserId: user._id.toString(),
+        metadata: { provider: link.provider, reason: 'invalid_password' }
+      });
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid password'
+      });
+    }
+
+    const linkedUser = await confirmIdentityLinkWithPassword(link);
+    clearOAuthLinkCookie(res); // Link requests are single-use
+
+    if (!linkedUser) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired link request. Please sign in again.'
+      });
+    }
+
+    await recordAuditEvent({
+      type: 'identity_linked',
+      req,
+      targetUserId: linkedUser._id.toString(),
+      metadata: { provider: link.provider, confirmedWith: 'password' }
+    });
+
+    // Linking doesn't skip the account's second factor
+    return sendSignInResponse(req, res, linkedUser);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Confirm link with password error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Confirm a pending account link from the emailed link
+ * POST /api/auth/oauth/link/confirm-email
+ */
+export const confirmLinkWithEmail = async (req: Request, res: Response) => {
+  try {
+    const validated = await confirmLinkWithEmailSchema.parseAsync({
+      body: req.body
+    });
+
+    const { token } = validated.body;
+
+    const user = await confirmIdentityLinkWithEmail(token);
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired confirmation link'
+      });
+    }
+
+    await recordAuditEvent({
+      type: 'identity_linked',
+      req,
+      targetUserId: user._id.toString(),
+      metadata: { confirmedWith: 'email' }
+    });
+
+    // No session is issued here: the email may be opened on another device
+    return res.status(200).json({
+      success: true,
+      message: 'Account linked successfully. You can now sign in with it.'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Confirm link with email error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * List the authenticated user's linked sign-in providers
+ * GET /api/auth/identities
+ */
+export const getIdentities = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const identities = await listIdentities(userId);
+
+    return res.status(200).json({
+      success: true,
+      count: identities.length,
+      data: identities.map((identity) => ({
+        id: identity._id,
+        provider: identity.provider,
+        displayName: getOAuthProvider(identity.provider)?.displayName || identity.provider,
+        email: identity.email,
+        createdAt: identity.createdAt,
+        lastUsedAt: identity.lastUsedAt
+      }))
+    });
+  } catch (error: any) {
+    console.error('Get identities error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Unlink a sign-in provider
+ * DELETE /api/auth/identities/:id
+ */
+export const deleteIdentity = async (req: Request, res: Response) => {
+  try {
+    const validated = await identityIdParamsSchema.parseAsync({
+      params: req.params
+    });
+
+    const { id } = validated.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const result = await unlinkIdentity(userId, id);
+
+    if (result === 'not_found') {
+      return res.status(404).json({
+        success: false,
+        message: 'Linked account not found'
+      });
+    }
+
+    if (result === 'last_sign_in_method') {
+      return res.status(400).json({
+        success: false,
+        message: 'This is your only way to sign in. Set a password or add a passkey before unlinking it.',
+        error: 'LAST_SIGN_IN_METHOD'
+      });
+    }
+
+    await recordAuditEvent({ type: 'identity_unlinked', req, metadata: { identityId: id } });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Account unlinked successfully'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Delete identity error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
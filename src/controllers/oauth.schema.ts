@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+// Exchange code schema
+export const exchangeCodeSchema = z.object({
+  body: z.object({
+    code: z.string().min(1, 'Exchange code is required') // From the /auth/callback redirect
+  })
+});
+
+// Confirm account link with password schema (the link token comes from the oauthLink cookie)
+export const confirmLinkWithPasswordSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, 'Password is required')
+  })
+});
+
+// Confirm account link from email schema
+export const confirmLinkWithEmailSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Confirmation token is required')
+  })
+});
+
+// Identity ID params schema
+export const identityIdParamsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid identity ID')
+  })
+});
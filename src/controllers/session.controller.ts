@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { clearAuthCookies } from '../lib/cookies';
+import { listActiveSessions, revokeSession, revokeAllSessions } from '../services/session.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { sessionIdParamsSchema } from './session.schema';
+
+/**
+ * List active sessions (devices) of the authenticated user
+ * GET /api/auth/sessions
+ */
+export const getSessions = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const sessions = await listActiveSessions(userId);
+
+    return res.status(200).json({
+      success: true,
+      count: sessions.length,
+      data: sessions.map((session) => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === req.user?.sessionId
+      }))
+    });
+  } catch (error: any) {
+    console.error('Get sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Revoke a single session (sign out one device)
+ * DELETE /api/auth/sessions/:id
+ */
+export const deleteSession = async (req: Request, res: Response) => {
+  try {
+    const validated = await sessionIdParamsSchema.parseAsync({
+      params: req.params
+    });
+
+    const { id } = validated.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const revoked = await revokeSession(id, userId);
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    await recordAuditEvent({ type: 'session_revoked', req, metadata: { sessionId: id } });
+
+    // Revoking the current session is the same as logging out
+    if (id === req.user?.sessionId) {
+      clearAuthCookies(res);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Delete session error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Revoke all sessions except the current one (log out everywhere else)
+ * DELETE /api/auth/sessions
+ */
+export const deleteOtherSessions = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const revokedCount = await revokeAllSessions(userId, 'revoked', req.user?.sessionId);
+
+    await recordAuditEvent({ type: 'session_revoked', req, metadata: { scope: 'others', revokedCount } });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Signed out of all other sessions',
+      data: {
+        revokedCount
+      }
+    });
+  } catch (error: any) {
+    console.error('Delete other sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
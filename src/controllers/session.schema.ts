@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+// Session ID params schema
+export const sessionIdParamsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid session ID')
+  })
+});
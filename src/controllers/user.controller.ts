@@ -1,6 +1,17 @@
 import { Request, Response } from 'express';
 import User from '../models/user.model';
+import Session from '../models/session.model';
+import Passkey from '../models/passkey.model';
+import Identity from '../models/identity.model';
+import ApiKey from '../models/apiKey.model';
+import KnownDevice from '../models/knownDevice.model';
 import { isOwnerOrAdmin } from '../middleware/authorize';
+import { unlockAccount } from '../services/lockout.service';
+import { revokeAllSessions } from '../services/session.service';
+import { deleteAllApiKeys } from '../services/apiKey.service';
+import { requestEmailChange } from '../services/emailVerification.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { userIdParamsSchema, updateUserRoleSchema } from './user.schema';
 
 /**
  * Get current user's profile
@@ -17,7 +28,7 @@ export const getProfile = async (req: Request, res: Response) => {
       });
     }
 
-    const user = await User.findById(userId).select('-password -refreshToken -refreshTokenExpires -emailVerificationToken -resetPasswordToken');
+    const user = await User.findById(userId).select('-password -emailVerificationToken -resetPasswordToken');
 
     if (!user) {
       return res.status(404).json({
@@ -63,7 +74,7 @@ export const getUserById = async (req: Request, res: Response) => {
       });
     }
 
-    const user = await User.findById(id).select('-password -refreshToken -refreshTokenExpires -emailVerificationToken -resetPasswordToken');
+    const user = await User.findById(id).select('-password -emailVerificationToken -resetPasswordToken');
 
     if (!user) {
       return res.status(404).json({
@@ -95,7 +106,7 @@ export const getAllUsers = async (_req: Request, res: Response) => {
     // So we know user is admin at this point
 
     const users = await User.find()
-      .select('-password -refreshToken -refreshTokenExpires -emailVerificationToken -resetPasswordToken')
+      .select('-password -emailVerificationToken -resetPasswordToken')
       .sort({ createdAt: -1 });
 
     return res.status(200).json({
@@ -146,22 +157,59 @@ export const updateUser = async (req: Request, res: Response) => {
       });
     }
 
+    const newEmail = typeof email === 'string' ? email.toLowerCase().trim() : undefined;
+
+    if (newEmail && !/^\S+@\S+\.\S+$/.test(newEmail)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide a valid email'
+      });
+    }
+
     // Update fields
     if (name) user.name = name;
-    if (email && email !== user.email) {
-      // If email is changed, require re-verification
-      user.email = email;
-      user.isEmailVerified = false;
+
+    // A new email only replaces the current one once it is confirmed
+    let message = 'User updated successfully';
+
+    if (newEmail && newEmail !== user.email) {
+      const emailChange = await requestEmailChange(user, newEmail);
+
+      if (emailChange.status === 'email_taken') {
+        return res.status(400).json({
+          success: false,
+          message: 'This email address is already used by another account',
+          error: 'EMAIL_TAKEN'
+        });
+      }
+
+      if (emailChange.status === 'cooldown') {
+        res.set('Retry-After', String(emailChange.retryAfter));
+        return res.status(429).json({
+          success: false,
+          message: 'An email change was just requested. Please wait before trying again.',
+          retryAfter: emailChange.retryAfter
+        });
+      }
+
+      await recordAuditEvent({
+        type: 'email_change_requested',
+        req,
+        targetUserId: user._id.toString(),
+        metadata: { pendingEmail: newEmail }
+      });
+
+      message = 'User updated successfully. Please confirm the new email address from the link we sent to it.';
     }
 
     await user.save();
 
     // Return updated user without sensitive fields
-    const updatedUser = await User.findById(id).select('-password -refreshToken -refreshTokenExpires -emailVerificationToken -resetPasswordToken');
+    const updatedUser = await User.findById(id).select('-password -emailVerificationToken -resetPasswordToken');
 
     return res.status(200).json({
       success: true,
-      message: 'User updated successfully',
+      message,
       data: updatedUser
     });
   } catch (error: any) {
@@ -207,6 +255,13 @@ export const deleteUser = async (req: Request, res: Response) => {
     }
 
     await User.findByIdAndDelete(id);
+    await Session.deleteMany({ userId: id });
+    await Passkey.deleteMany({ userId: id });
+    await Identity.deleteMany({ userId: id });
+    await ApiKey.deleteMany({ userId: id });
+    await KnownDevice.deleteMany({ userId: id });
+
+    await recordAuditEvent({ type: 'user_deleted', req, targetUserId: id, metadata: { email: user.email } });
 
     return res.status(200).json({
       success: true,
@@ -221,3 +276,196 @@ export const deleteUser = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Clear a login lockout
+ * Only admins can unlock users
+ */
+export const unlockUser = async (req: Request, res: Response) => {
+  try {
+    const validated = await userIdParamsSchema.parseAsync({
+      params: req.params
+    });
+
+    const { id } = validated.params;
+
+    const user = await User.findById(id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const unlocked = await unlockAccount(user.email);
+
+    if (unlocked) {
+      await recordAuditEvent({
+        type: 'account_unlocked',
+        req,
+        targetUserId: user._id.toString(),
+        metadata: { email: user.email, method: 'admin' }
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: unlocked ? 'User unlocked successfully' : 'User was not locked'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Unlock user error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Sign a user out of every device (Admin only)
+ * Revokes all sessions and their access tokens immediately, and deletes the user's API keys
+ */
+export const revokeUserSessions = async (req: Request, res: Response) => {
+  try {
+    const validated = await userIdParamsSchema.parseAsync({
+      params: req.params
+    });
+
+    const { id } = validated.params;
+
+    const user = await User.findById(id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const revokedCount = await revokeAllSessions(user._id.toString(), 'revoked');
+    await deleteAllApiKeys(user._id.toString());
+
+    await recordAuditEvent({
+      type: 'session_revoked',
+      req,
+      targetUserId: user._id.toString(),
+      metadata: { scope: 'all', revokedCount }
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'User sessions revoked successfully',
+      data: {
+        revokedCount
+      }
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Revoke user sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Change a user's role (Admin only)
+ * Admins cannot change their own role, so the last admin can't lock everyone out
+ */
+export const updateUserRole = async (req: Request, res: Response) => {
+  try {
+    const validated = await updateUserRoleSchema.parseAsync({
+      params: req.params,
+      body: req.body
+    });
+
+    const { id } = validated.params;
+    const { role } = validated.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    if (id === userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot change your own role'
+      });
+    }
+
+    const user = await User.findById(id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const previousRole = user.role;
+
+    if (previousRole !== role) {
+      user.role = role;
+      await user.save();
+
+      await recordAuditEvent({
+        type: 'role_changed',
+        req,
+        targetUserId: user._id.toString(),
+        metadata: { from: previousRole, to: role }
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'User role updated successfully',
+      data: {
+        id: user._id,
+        role: user.role
+      }
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Update user role error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
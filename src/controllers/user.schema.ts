@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// User ID params schema
+export const userIdParamsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID')
+  })
+});
+
+// Update user role schema
+export const updateUserRoleSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID')
+  }),
+  body: z.object({
+    role: z.enum(['user', 'admin'], { message: 'Role must be user or admin' })
+  })
+});
@@ -0,0 +1,557 @@
+import { Request, Response } from 'express';
+import type { RegistrationResponseJSON, AuthenticationResponseJSON } from '@simplewebauthn/server';
+import User from '../models/user.model';
+import Passkey, { IPasskey } from '../models/passkey.model';
+import { setAuthCookies, setDeviceCookie } from '../lib/cookies';
+import { createSession } from '../services/session.service';
+import { findPendingChallenge, claimChallengeAttempt, consumeChallenge } from '../services/twoFactorChallenge.service';
+import { checkLoginThrottle, recordLoginFailure, clearLoginFailures } from '../services/lockout.service';
+import { recordAuditEvent } from '../services/audit.service';
+import {
+  DEVICE_CONFIRMATION_REQUIRED,
+  identifySignInDevice,
+  rememberSignInDevice,
+  startDeviceConfirmation
+} from '../services/knownDevice.service';
+import {
+  createRegistrationOptions,
+  verifyRegistration,
+  createAuthenticationOptions,
+  verifyAuthentication,
+  removePasskey
+} from '../services/webauthn.service';
+import { generateBackupCodes, hashBackupCodes } from '../lib/twoFactor';
+import {
+  passkeyRegistrationSchema,
+  passkeyAuthenticationOptionsSchema,
+  passkeyAuthenticationSchema,
+  renamePasskeySchema,
+  passkeyIdParamsSchema
+} from './webauthn.schema';
+
+// Public passkey fields
+const formatPasskey = (passkey: IPasskey) => ({
+  id: passkey._id,
+  name: passkey.name,
+  deviceType: passkey.deviceType,
+  backedUp: passkey.backedUp,
+  transports: passkey.transports,
+  createdAt: passkey.createdAt,
+  lastUsedAt: passkey.lastUsedAt
+});
+
+/**
+ * Start passkey registration
+ * POST /api/auth/webauthn/register/options
+ */
+export const getRegistrationOptions = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const options = await createRegistrationOptions(user);
+
+    return res.status(200).json({
+      success: true,
+      data: options
+    });
+  } catch (error: any) {
+    console.error('Passkey registration options error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Finish passkey registration
+ * POST /api/auth/webauthn/register/verify
+ */
+export const verifyPasskeyRegistration = async (req: Request, res: Response) => {
+  try {
+    const validated = await passkeyRegistrationSchema.parseAsync({
+      body: req.body
+    });
+
+    const { response, name } = validated.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const passkey = await verifyRegistration(user, response as unknown as RegistrationResponseJSON, name);
+
+    if (!passkey) {
+      return res.status(400).json({
+        success: false,
+        message: 'Passkey registration could not be verified. Please try again.'
+      });
+    }
+
+    await recordAuditEvent({ type: 'passkey_added', req, metadata: { passkeyId: passkey._id.toString(), name: passkey.name } });
+
+    // A passkey is a second factor on its own (backup codes are issued with the first factor)
+    const backupCodes = !user.isTwoFactorEnabled ? generateBackupCodes(10) : undefined;
+
+    if (backupCodes) {
+      user.isTwoFactorEnabled = true;
+      user.twoFactorBackupCodes = hashBackupCodes(backupCodes); // Only hashes are stored
+      await user.save();
+
+      await recordAuditEvent({ type: 'two_factor_enabled', req, metadata: { method: 'webauthn' } });
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: 'Passkey registered successfully',
+      data: {
+        ...formatPasskey(passkey),
+        backupCodes // User should save these codes securely
+      },
+      warning: backupCodes
+        ? 'Please save these backup codes in a safe place. You will need them if you lose access to your passkeys.'
+        : undefined
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    // Same credential registered twice
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'This passkey is already registered'
+      });
+    }
+
+    console.error('Passkey registration error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Start passkey authentication (passwordless login, or second factor with challengeToken)
+ * POST /api/auth/webauthn/login/options
+ */
+export const getAuthenticationOptions = async (req: Request, res: Response) => {
+  try {
+    const validated = await passkeyAuthenticationOptionsSchema.parseAsync({
+      body: req.body || {}
+    });
+
+    const { challengeToken } = validated.body;
+    let userId: string | undefined;
+
+    if (challengeToken) {
+      const challenge = await findPendingChallenge(challengeToken, 'two_factor');
+
+      if (!challenge) {
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid or expired 2FA challenge. Please login again.'
+        });
+      }
+
+      userId = challenge.userId.toString();
+    }
+
+    const options = await createAuthenticationOptions(userId);
+
+    return res.status(200).json({
+      success: true,
+      data: options
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Passkey authentication options error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Finish passkey authentication and sign the user in
+ * POST /api/auth/webauthn/login/verify
+ */
+export const verifyPasskeyAuthentication = async (req: Request, res: Response) => {
+  try {
+    const validated = await passkeyAuthenticationSchema.parseAsync({
+      body: req.body
+    });
+
+    const { challengeToken } = validated.body;
+    const response = validated.body.response as unknown as AuthenticationResponseJSON;
+
+    let user;
+
+    if (challengeToken) {
+      // Second factor: the password step already happened
+      const attempt = await claimChallengeAttempt(challengeToken, 'two_factor');
+
+      if (attempt.status === 'too_many_attempts') {
+        return res.status(429).json({
+          success: false,
+          message: 'Too many invalid 2FA attempts. Please login again.',
+          error: 'TWO_FACTOR_ATTEMPTS_EXCEEDED'
+        });
+      }
+
+      if (attempt.status === 'invalid') {
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid or expired 2FA challenge. Please login again.'
+        });
+      }
+
+      const { challenge } = attempt;
+      user = await User.findById(challenge.userId);
+
+      if (!user || user.tokenVersion !== challenge.tokenVersion) {
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid or expired 2FA challenge. Please login again.'
+        });
+      }
+
+      const throttle = await checkLoginThrottle(user.email, req.ip);
+
+      if (!throttle.allowed) {
+        res.set('Retry-After', String(throttle.retryAfter));
+        return res.status(429).json({
+          success: false,
+          message: 'Too many failed attempts. Please wait before trying again.',
+          error: throttle.reason === 'locked' ? 'ACCOUNT_LOCKED' : 'TOO_MANY_ATTEMPTS',
+          retryAfter: throttle.retryAfter
+        });
+      }
+
+      const result = await verifyAuthentication(response, user._id.toString());
+
+      if (result.status !== 'ok') {
+        await recordLoginFailure(user.email, req.ip, user);
+        await recordAuditEvent({
+          type: 'two_factor_verified',
+          outcome: 'failure',
+          req,
+          targetUserId: user._id.toString(),
+          metadata: { method: 'webauthn' }
+        });
+        return res.status(401).json({
+          success: false,
+          message: 'Passkey verification failed'
+        });
+      }
+
+      // A challenge can complete only one login
+      const consumed = await consumeChallenge(challenge);
+
+      if (!consumed) {
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid or expired 2FA challenge. Please login again.'
+        });
+      }
+    } else {
+      // Passwordless: the passkey (with user verification) is the whole login
+      const result = await verifyAuthentication(response);
+
+      if (result.status !== 'ok') {
+        return res.status(401).json({
+          success: false,
+          message: 'Passkey verification failed'
+        });
+      }
+
+      user = await User.findById(result.passkey.userId);
+
+      if (!user) {
+        return res.status(401).json({
+          success: false,
+          message: 'Passkey verification failed'
+        });
+      }
+
+      if (!user.isEmailVerified) {
+        return res.status(403).json({
+          success: false,
+          message: 'Please verify your email before logging in. Check your inbox for the verification email.',
+          error: 'EMAIL_NOT_VERIFIED'
+        });
+      }
+    }
+
+    // Unfamiliar device: optionally confirm it with an emailed code before issuing tokens
+    const device = await identifySignInDevice(user, req);
+
+    if (!device.known && DEVICE_CONFIRMATION_REQUIRED) {
+      const confirmation = await startDeviceConfirmation(user);
+
+      return res.status(200).json({
+        success: true,
+        message: 'New device. Enter the code we emailed you to continue.',
+        requiresDeviceConfirmation: true,
+        ...confirmation
+      });
+    }
+
+    if (challengeToken) {
+      await clearLoginFailures(user.email, req.ip);
+    }
+
+    // Start a new device session (issues access and refresh tokens)
+    const { accessToken, refreshToken } = await createSession(user, req);
+
+    await recordAuditEvent(challengeToken
+      ? { type: 'two_factor_verified', req, actorId: user._id.toString(), metadata: { method: 'webauthn' } }
+      : { type: 'login', req, actorId: user._id.toString(), metadata: { method: 'passkey' } });
+
+    // Remember the device (emails a new-device alert if it is unfamiliar)
+    await rememberSignInDevice(user, req, device);
+    setDeviceCookie(res, device.deviceToken);
+
+    setAuthCookies(res, accessToken, refreshToken);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        isEmailVerified: user.isEmailVerified
+      },
+      accessToken,
+      refreshToken
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Passkey authentication error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * List the authenticated user's passkeys
+ * GET /api/auth/webauthn/credentials
+ */
+export const getPasskeys = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const passkeys = await Passkey.find({ userId }).sort({ createdAt: -1 });
+
+    return res.status(200).json({
+      success: true,
+      count: passkeys.length,
+      data: passkeys.map(formatPasskey)
+    });
+  } catch (error: any) {
+    console.error('Get passkeys error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Rename a passkey
+ * PATCH /api/auth/webauthn/credentials/:id
+ */
+export const renamePasskey = async (req: Request, res: Response) => {
+  try {
+    const validated = await renamePasskeySchema.parseAsync({
+      params: req.params,
+      body: req.body
+    });
+
+    const { id } = validated.params;
+    const { name } = validated.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const passkey = await Passkey.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: { name } },
+      { new: true }
+    );
+
+    if (!passkey) {
+      return res.status(404).json({
+        success: false,
+        message: 'Passkey not found'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Passkey renamed successfully',
+      data: formatPasskey(passkey)
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Rename passkey error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Remove a passkey
+ * DELETE /api/auth/webauthn/credentials/:id
+ */
+export const deletePasskey = async (req: Request, res: Response) => {
+  try {
+    const validated = await passkeyIdParamsSchema.parseAsync({
+      params: req.params
+    });
+
+    const { id } = validated.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const result = await removePasskey(userId, id);
+
+    if (result.status === 'not_found') {
+      return res.status(404).json({
+        success: false,
+        message: 'Passkey not found'
+      });
+    }
+
+    if (result.status === 'last_sign_in_method') {
+      return res.status(400).json({
+        success: false,
+        message: 'This is your only way to sign in. Set a password or link a sign-in provider before removing it.',
+        error: 'LAST_SIGN_IN_METHOD'
+      });
+    }
+
+    await recordAuditEvent({ type: 'passkey_removed', req, metadata: { passkeyId: id, name: result.passkey.name } });
+
+    if (result.twoFactorDisabled) {
+      await recordAuditEvent({ type: 'two_factor_disabled', req, metadata: { method: 'webauthn', remaining: [] } });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: result.twoFactorDisabled
+        ? 'Passkey removed successfully. 2FA is now off because it was your last second factor.'
+        : 'Passkey removed successfully'
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues?.map((err: any) => ({
+          path: err.path.join('.'),
+          message: err.message
+        })) || []
+      });
+    }
+
+    console.error('Delete passkey error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
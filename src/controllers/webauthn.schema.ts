@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+// Credential returned by navigator.credentials.create()/get() (JSON-serialized)
+// Detailed checks happen in the WebAuthn library during verification
+const credentialResponseSchema = z.looseObject({
+  id: z.string().min(1, 'Credential ID is required'),
+  rawId: z.string().min(1, 'Raw credential ID is required'),
+  type: z.literal('public-key', { message: 'Credential type must be public-key' }),
+  response: z.looseObject({
+    clientDataJSON: z.string().min(1, 'clientDataJSON is required')
+  }),
+  clientExtensionResults: z.record(z.string(), z.unknown()).default({})
+});
+
+// Passkey registration verification schema
+export const passkeyRegistrationSchema = z.object({
+  body: z.object({
+    response: credentialResponseSchema,
+    name: z
+      .string()
+      .min(1, 'Passkey name cannot be empty')
+      .max(100, 'Passkey name cannot exceed 100 characters')
+      .trim()
+      .optional()
+  })
+});
+
+// Passkey authentication options schema
+export const passkeyAuthenticationOptionsSchema = z.object({
+  body: z.object({
+    challengeToken: z.string().min(1).optional() // Set when used as a second factor
+  })
+});
+
+// Passkey authentication verification schema
+export const passkeyAuthenticationSchema = z.object({
+  body: z.object({
+    response: credentialResponseSchema,
+    challengeToken: z.string().min(1).optional() // Set when used as a second factor
+  })
+});
+
+// Rename passkey schema
+export const renamePasskeySchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid passkey ID')
+  }),
+  body: z.object({
+    name: z
+      .string()
+      .min(1, 'Passkey name is required')
+      .max(100, 'Passkey name cannot exceed 100 characters')
+      .trim()
+  })
+});
+
+// Passkey ID params schema
+export const passkeyIdParamsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid passkey ID')
+  })
+});
@@ -0,0 +1,12 @@
+import { Request, Response } from 'express';
+import { getAccessTokenJwks } from '../lib/jwt';
+
+/**
+ * Public keys other services use to verify our access tokens
+ * GET /.well-known/jwks.json
+ */
+export const getJwks = async (_req: Request, res: Response) => {
+  // Short cache so rotated keys are picked up quickly
+  res.set('Cache-Control', 'public, max-age=300');
+  return res.status(200).json(getAccessTokenJwks());
+};
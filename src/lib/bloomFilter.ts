@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+
+// File layout: magic (4 bytes) | bit count (uint32 BE) | hash count (uint8) | bits
+const MAGIC = Buffer.from('BLM1');
+const HEADER_SIZE = MAGIC.length + 4 + 1;
+
+export interface BloomFilter {
+  bitCount: number;
+  hashCount: number;
+  bits: Buffer;
+}
+
+/**
+ * Create an empty bloom filter sized for a number of items
+ * @param itemCount - Expected number of items
+ * @param falsePositiveRate - Acceptable false positive rate (e.g. 0.001)
+ * @returns Empty filter
+ */
+export const createBloomFilter = (itemCount: number, falsePositiveRate: number): BloomFilter => {
+  const bitCount = Math.max(8, Math.ceil(-(itemCount * Math.log(falsePositiveRate)) / (Math.LN2 * Math.LN2)));
+  const hashCount = Math.max(1, Math.min(255, Math.round((bitCount / Math.max(1, itemCount)) * Math.LN2)));
+
+  return {
+    bitCount,
+    hashCount,
+    bits: Buffer.alloc(Math.ceil(bitCount / 8))
+  };
+};
+
+/**
+ * Bit positions for an item (double hashing over SHA-256)
+ * @param filter - Bloom filter
+ * @param item - Item
+ * @returns Bit indexes
+ */
+const getBitIndexes = (filter: BloomFilter, item: string): number[] => {
+  const digest = crypto.createHash('sha256').update(item, 'utf8').digest();
+  const h1 = digest.readUInt32BE(0);
+  const h2 = (digest.readUInt32BE(4) | 1) >>> 0; // Odd step (kept unsigned)
+  const indexes: number[] = [];
+
+  for (let i = 0; i < filter.hashCount; i++) {
+    indexes.push((h1 + i * h2) % filter.bitCount);
+  }
+
+  return indexes;
+};
+
+/**
+ * Add an item to a bloom filter
+ * @param filter - Bloom filter
+ * @param item - Item to add
+ */
+export const addToBloomFilter = (filter: BloomFilter, item: string): void => {
+  for (const index of getBitIndexes(filter, item)) {
+    filter.bits[index >> 3] |= 1 << (index & 7);
+  }
+};
+
+/**
+ * Check whether an item may be in a bloom filter
+ * @param filter - Bloom filter
+ * @param item - Item to look up
+ * @returns False if definitely absent, true if probably present
+ */
+export const bloomFilterHas = (filter: BloomFilter, item: string): boolean => {
+  return getBitIndexes(filter, item).every((index) => (filter.bits[index >> 3] & (1 << (index & 7))) !== 0);
+};
+
+/**
+ * Serialize a bloom filter for writing to disk
+ * @param filter - Bloom filter
+ * @returns File contents
+ */
+export const serializeBloomFilter = (filter: BloomFilter): Buffer => {
+  const header = Buffer.alloc(HEADER_SIZE);
+  MAGIC.copy(header, 0);
+  header.writeUInt32BE(filter.bitCount, MAGIC.length);
+  header.writeUInt8(filter.hashCount, MAGIC.length + 4);
+
+  return Buffer.concat([header, filter.bits]);
+};
+
+/**
+ * Read a bloom filter written by serializeBloomFilter
+ * @param data - File contents
+ * @returns Bloom filter
+ */
+export const parseBloomFilter = (data: Buffer): BloomFilter => {
+  if (data.length < HEADER_SIZE || !data.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error('Not a bloom filter file');
+  }
+
+  const bitCount = data.readUInt32BE(MAGIC.length);
+  const hashCount = data.readUInt8(MAGIC.length + 4);
+  const bits = data.subarray(HEADER_SIZE);
+
+  if (bits.length !== Math.ceil(bitCount / 8) || hashCount === 0) {
+    throw new Error('Bloom filter file is truncated or corrupt');
+  }
+
+  return { bitCount, hashCount, bits };
+};
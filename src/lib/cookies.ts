@@ -0,0 +1,190 @@
+import { Request, Response } from 'express';
+import { generateCsrfToken, isValidCsrfToken } from './csrf';
+
+// Cookie options helper
+export const getCookieOptions = () => {
+  const NODE_ENV = process.env.NODE_ENV || 'development';
+  
+  return {
+    httpOnly: true, // Prevents JavaScript access (XSS protection)
+    secure: NODE_ENV === 'production', // Only send over HTTPS in production
+    sameSite: 'strict' as const, // CSRF protection
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days (for refresh token)
+    path: '/' // Available for all routes
+  };
+};
+
+// Access token cookie options (shorter expiration)
+export const getAccessTokenCookieOptions = () => {
+  const NODE_ENV = process.env.NODE_ENV || 'development';
+  
+  return {
+    httpOnly: true,
+    secure: NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    maxAge: 15 * 60 * 1000, // 15 minutes (for access token)
+    path: '/'
+  };
+};
+
+// CSRF cookie: readable by the frontend, which echoes it in the X-CSRF-Token header
+const CSRF_COOKIE = 'csrfToken';
+
+/**
+ * Set access and refresh token cookies
+ * @param res - Express response object
+ * @param accessToken - Access token
+ * @param refreshToken - Refresh token
+ */
+export const setAuthCookies = (res: Response, accessToken: string, refreshToken: string): void => {
+  res.cookie('accessToken', accessToken, getAccessTokenCookieOptions());
+  res.cookie('refreshToken', refreshToken, getCookieOptions());
+  setCsrfCookie(res, generateCsrfToken()); // Fresh CSRF token for each sign-in
+};
+
+/**
+ * Clear access and refresh token cookies
+ * @param res - Express response object
+ */
+export const clearAuthCookies = (res: Response): void => {
+  res.clearCookie('accessToken', { path: '/' });
+  res.clearCookie('refreshToken', { path: '/' });
+  res.clearCookie(CSRF_COOKIE, { path: '/' });
+};
+
+/**
+ * Set the CSRF cookie
+ * @param res - Express response object
+ * @param csrfToken - Signed CSRF token
+ */
+export const setCsrfCookie = (res: Response, csrfToken: string): void => {
+  res.cookie(CSRF_COOKIE, csrfToken, {
+    ...getCookieOptions(),
+    httpOnly: false // The frontend has to read it
+  });
+};
+
+/**
+ * Read the CSRF cookie
+ * @param req - Express request object
+ * @returns CSRF token, if present
+ */
+export const getCsrfCookie = (req: Request): string | undefined => {
+  return req.cookies?.[CSRF_COOKIE];
+};
+
+/**
+ * Get the current CSRF token, issuing one if the cookie is missing or invalid
+ * @param req - Express request object
+ * @param res - Express response object
+ * @returns CSRF token
+ */
+export const ensureCsrfCookie = (req: Request, res: Response): string => {
+  const existing = getCsrfCookie(req);
+
+  if (existing && isValidCsrfToken(existing)) {
+    return existing;
+  }
+
+  const csrfToken = generateCsrfToken();
+  setCsrfCookie(res, csrfToken);
+  return csrfToken;
+};
+
+// Device cookie: recognizes a browser across sign-ins (kept on logout)
+const DEVICE_COOKIE = 'deviceId';
+
+/**
+ * Set the device cookie
+ * @param res - Express response object
+ * @param deviceToken - Random device identifier
+ */
+export const setDeviceCookie = (res: Response, deviceToken: string): void => {
+  res.cookie(DEVICE_COOKIE, deviceToken, {
+    ...getCookieOptions(),
+    maxAge: 365 * 24 * 60 * 60 * 1000 // 1 year
+  });
+};
+
+/**
+ * Read the device cookie
+ * @param req - Express request object
+ * @returns Device identifier, if present
+ */
+export const getDeviceCookie = (req: Request): string | undefined => {
+  return req.cookies?.[DEVICE_COOKIE];
+};
+
+// OAuth state cookie: sent to every /api/auth route so the legacy Google callback sees it
+const OAUTH_STATE_COOKIE = 'oauthState';
+const OAUTH_STATE_COOKIE_PATH = '/api/auth';
+
+/**
+ * Set the OAuth state cookie for the provider round trip
+ * SameSite=Lax (not Strict) so the cookie comes back on the provider's
+ * top-level redirect to the callback.
+ * @param res - Express response object
+ * @param stateToken - Signed state token
+ */
+export const setOAuthStateCookie = (res: Response, stateToken: string): void => {
+  const NODE_ENV = process.env.NODE_ENV || 'development';
+
+  res.cookie(OAUTH_STATE_COOKIE, stateToken, {
+    httpOnly: true,
+    secure: NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge: 10 * 60 * 1000, // 10 minutes (matches state token)
+    path: OAUTH_STATE_COOKIE_PATH
+  });
+};
+
+/**
+ * Read the OAuth state cookie
+ * @param req - Express request object
+ * @returns Signed state token, if present
+ */
+export const getOAuthStateCookie = (req: Request): string | undefined => {
+  return req.cookies?.[OAUTH_STATE_COOKIE];
+};
+
+/**
+ * Clear the OAuth state cookie (state is single-use)
+ * @param res - Express response object
+ */
+export const clearOAuthStateCookie = (res: Response): void => {
+  res.clearCookie(OAUTH_STATE_COOKIE, { path: OAUTH_STATE_COOKIE_PATH });
+};
+
+// Account link cookie: carries a pending link request to the confirm endpoints (never in a URL)
+const OAUTH_LINK_COOKIE = 'oauthLink';
+const OAUTH_LINK_COOKIE_PATH = '/api/auth/oauth/link';
+
+/**
+ * Set the account link cookie
+ * @param res - Express response object
+ * @param linkToken - Link request token
+ */
+export const setOAuthLinkCookie = (res: Response, linkToken: string): void => {
+  res.cookie(OAUTH_LINK_COOKIE, linkToken, {
+    ...getCookieOptions(),
+    maxAge: 15 * 60 * 1000, // 15 minutes (matches the link request)
+    path: OAUTH_LINK_COOKIE_PATH
+  });
+};
+
+/**
+ * Read the account link cookie
+ * @param req - Express request object
+ * @returns Link request token, if present
+ */
+export const getOAuthLinkCookie = (req: Request): string | undefined => {
+  return req.cookies?.[OAUTH_LINK_COOKIE];
+};
+
+/**
+ * Clear the account link cookie
+ * @param res - Express response object
+ */
+export const clearOAuthLinkCookie = (res: Response): void => {
+  res.clearCookie(OAUTH_LINK_COOKIE, { path: OAUTH_LINK_COOKIE_PATH });
+};
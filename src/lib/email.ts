@@ -39,6 +39,11 @@ const createTransporter = () => {
   }
 };
 
+// Escape client-supplied text (e.g. a user agent) before putting it in an email
+const escapeHtml = (value: string): string => {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+};
+
 /**
  * Send email verification
  * @param email - Recipient email
@@ -219,3 +224,329 @@ export const sendTaskReminderEmail = async (
     throw error;
   }
 };
+
+/**
+ * Send account locked email with an unlock link
+ * @param email - Recipient email
+ * @param unlockToken - Account unlock token
+ * @param name - User's name
+ * @param lockoutMinutes - How long the lock lasts if not unlocked
+ */
+export const sendAccountLockedEmail = async (
+  email: string,
+  unlockToken: string,
+  name: string,
+  lockoutMinutes: number
+): Promise<void> => {
+  const transporter = createTransporter();
+
+  const unlockUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/unlock-account?token=${unlockToken}`;
+
+  const mailOptions = {
+    from: process.env.EMAIL_FROM || 'noreply@example.com',
+    to: email,
+    subject: 'Your Account Has Been Temporarily Locked',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Hello ${name}!</h2>
+        <p>We detected too many failed sign-in attempts on your account, so we locked it for ${lockoutMinutes} minutes.</p>
+        <p>If this was you, you can unlock your account right away:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${unlockUrl}" 
+             style="background-color: #ff9800; color: white; padding: 12px 30px; 
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Unlock Account
+          </a>
+        </div>
+        <p>Or copy and paste this link into your browser:</p>
+        <p style="color: #666; word-break: break-all;">${unlockUrl}</p>
+        <p style="color: #999; font-size: 12px; margin-top: 30px;">
+          If this wasn't you, someone may be trying to guess your password. We recommend changing it after you sign in.
+        </p>
+      </div>
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
+/**
+ * Send a one-time sign-in code (email second factor)
+ * @param email - Recipient email
+ * @param code - 6-digit code
+ * @param name - User's name
+ * @param expiresInMinutes - How long the code stays valid
+ * @param purpose - 'login' for sign-in, 'setup' when enrolling the factor, 'device' to confirm a new device
+ */
+export const sendTwoFactorCodeEmail = async (
+  email: string,
+  code: string,
+  name: string,
+  expiresInMinutes: number,
+  purpose: 'login' | 'setup' | 'device'
+): Promise<void> => {
+  const transporter = createTransporter();
+
+  const intro = purpose === 'setup'
+    ? 'Use this code to turn on email verification codes for your account:'
+    : purpose === 'device'
+      ? 'You are signing in from a device we don\'t recognize. Use this code to confirm it:'
+      : 'Use this code to finish signing in:';
+
+  const subjects = {
+    login: 'Your Sign-In Code',
+    setup: 'Confirm Email Verification Codes',
+    device: 'Confirm Your New Device'
+  };
+
+  const mailOptions = {
+    from: process.env.EMAIL_FROM || 'noreply@example.com',
+    to: email,
+    subject: subjects[purpose],
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Hello ${name}!</h2>
+        <p>${intro}</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <span style="font-size: 32px; letter-spacing: 8px; font-weight: bold; color: #333;">${code}</span>
+        </div>
+        <p style="color: #999; font-size: 12px; margin-top: 30px;">
+          This code will expire in ${expiresInMinutes} minutes. If you didn't try to sign in, someone may know your password. We recommend changing it.
+        </p>
+      </div>
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
+/**
+ * Send a passwordless sign-in link
+ * @param email - Recipient email
+ * @param magicLinkToken - Single-use sign-in token
+ * @param name - User's name
+ * @param expiresInMinutes - How long the link stays valid
+ */
+export const sendMagicLinkEmail = async (
+  email: string,
+  magicLinkToken: string,
+  name: string,
+  expiresInMinutes: number
+): Promise<void> => {
+  const transporter = createTransporter();
+
+  const signInUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/magic-link?token=${magicLinkToken}`;
+
+  const mailOptions = {
+    from: process.env.EMAIL_FROM || 'noreply@example.com',
+    to: email,
+    subject: 'Your Sign-In Link',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Hello ${name}!</h2>
+        <p>Click the button below to sign in. No password needed:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${signInUrl}" 
+             style="background-color: #4CAF50; color: white; padding: 12px 30px; 
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Sign In
+          </a>
+        </div>
+        <p>Or copy and paste this link into your browser:</p>
+        <p style="color: #666; word-break: break-all;">${signInUrl}</p>
+        <p style="color: #999; font-size: 12px; margin-top: 30px;">
+          This link can be used once and will expire in ${expiresInMinutes} minutes. If you didn't request it, you can ignore this email.
+        </p>
+      </div>
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
+/**
+ * Ask an account owner to confirm linking an external sign-in
+ * @param email - Recipient email (the existing account)
+ * @param linkToken - Single-use confirmation token
+ * @param name - User's name
+ * @param providerName - Display name of the provider (e.g. 'GitHub')
+ * @param providerEmail - Email of the provider account being linked
+ * @param expiresInMinutes - How long the link stays valid
+ */
+export const sendAccountLinkEmail = async (
+  email: string,
+  linkToken: string,
+  name: string,
+  providerName: string,
+  providerEmail: string,
+  expiresInMinutes: number
+): Promise<void> => {
+  const transporter = createTransporter();
+
+  const confirmUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/auth/confirm-link?token=${linkToken}`;
+
+  const mailOptions = {
+    from: process.env.EMAIL_FROM || 'noreply@example.com',
+    to: email,
+    subject: `Link ${providerName} to Your Account?`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Hello ${name}!</h2>
+        <p>Someone tried to sign in with the ${providerName} account <strong>${providerEmail}</strong>, which uses the same email as your account.</p>
+        <p>If this was you, confirm to let this ${providerName} account sign in to your account:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${confirmUrl}" 
+             style="background-color: #4CAF50; color: white; padding: 12px 30px; 
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Link ${providerName}
+          </a>
+        </div>
+        <p>Or copy and paste this link into your browser:</p>
+        <p style="color: #666; word-break: break-all;">${confirmUrl}</p>
+        <p style="color: #999; font-size: 12px; margin-top: 30px;">
+          This link will expire in ${expiresInMinutes} minutes. If this wasn't you, ignore this email - nothing will be linked.
+        </p>
+      </div>
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
+/**
+ * Ask for confirmation of a new email address
+ * @param email - Recipient email (the new address)
+ * @param confirmToken - Single-use confirmation token
+ * @param name - User's name
+ * @param expiresInHours - How long the link stays valid
+ */
+export const sendEmailChangeConfirmationEmail = async (
+  email: string,
+  confirmToken: string,
+  name: string,
+  expiresInHours: number
+): Promise<void> => {
+  const transporter = createTransporter();
+
+  const confirmUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/confirm-email-change?token=${confirmToken}`;
+
+  const mailOptions = {
+    from: process.env.EMAIL_FROM || 'noreply@example.com',
+    to: email,
+    subject: 'Confirm Your New Email Address',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Hello ${name}!</h2>
+        <p>You asked to change the email address of your account to this one. Click the button below to confirm:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${confirmUrl}" 
+             style="background-color: #4CAF50; color: white; padding: 12px 30px; 
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Confirm Email
+          </a>
+        </div>
+        <p>Or copy and paste this link into your browser:</p>
+        <p style="color: #666; word-break: break-all;">${confirmUrl}</p>
+        <p style="color: #999; font-size: 12px; margin-top: 30px;">
+          This link will expire in ${expiresInHours} hours. Until then you keep signing in with your current email.
+        </p>
+      </div>
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
+/**
+ * Tell the current address that an email change was requested
+ * @param email - Recipient email (the current address)
+ * @param newEmail - Requested new address
+ * @param cancelToken - Single-use cancellation token
+ * @param name - User's name
+ */
+export const sendEmailChangeNoticeEmail = async (
+  email: string,
+  newEmail: string,
+  cancelToken: string,
+  name: string
+): Promise<void> => {
+  const transporter = createTransporter();
+
+  const cancelUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/cancel-email-change?token=${cancelToken}`;
+
+  const mailOptions = {
+    from: process.env.EMAIL_FROM || 'noreply@example.com',
+    to: email,
+    subject: 'Your Email Address Is Being Changed',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Hello ${name}!</h2>
+        <p>Someone asked to change the email address of your account to <strong>${newEmail}</strong>.</p>
+        <p>Nothing changes until the new address is confirmed. If this wasn't you, cancel the change and reset your password:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${cancelUrl}" 
+             style="background-color: #f44336; color: white; padding: 12px 30px; 
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            Cancel Email Change
+          </a>
+        </div>
+        <p>Or copy and paste this link into your browser:</p>
+        <p style="color: #666; word-break: break-all;">${cancelUrl}</p>
+      </div>
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
+/**
+ * Tell a user about a sign-in from a device we haven't seen before
+ * @param email - Recipient email
+ * @param reportToken - Single-use "this wasn't me" token
+ * @param name - User's name
+ * @param device - Where the sign-in came from
+ * @param expiresInDays - How long the "this wasn't me" link stays valid
+ */
+export const sendNewDeviceEmail = async (
+  email: string,
+  reportToken: string,
+  name: string,
+  device: { userAgent?: string; ipAddress?: string; signedInAt: Date },
+  expiresInDays: number
+): Promise<void> => {
+  const transporter = createTransporter();
+
+  const reportUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/report-sign-in?token=${reportToken}`;
+
+  const mailOptions = {
+    from: process.env.EMAIL_FROM || 'noreply@example.com',
+    to: email,
+    subject: 'New Sign-In to Your Account',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Hello ${name}!</h2>
+        <p>Your account was just signed in to from a device we don't recognize:</p>
+        <ul style="color: #666;">
+          <li>Time: ${device.signedInAt.toUTCString()}</li>
+          <li>Device: ${escapeHtml(device.userAgent || 'Unknown')}</li>
+          <li>IP address: ${escapeHtml(device.ipAddress || 'Unknown')}</li>
+        </ul>
+        <p>If this was you, there's nothing to do. If it wasn't, sign out everywhere and reset your password:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${reportUrl}" 
+             style="background-color: #f44336; color: white; padding: 12px 30px; 
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            This Wasn't Me
+          </a>
+        </div>
+        <p>Or copy and paste this link into your browser:</p>
+        <p style="color: #666; word-break: break-all;">${reportUrl}</p>
+        <p style="color: #999; font-size: 12px; margin-top: 30px;">
+          This link will expire in ${expiresInDays} days.
+        </p>
+      </div>
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
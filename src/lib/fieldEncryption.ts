@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12; // Recommended IV size for GCM
+const ENCRYPTED_PREFIX = 'enc:v2:'; // Bound to the owning document
+const LEGACY_ENCRYPTED_PREFIX = 'enc:v1:'; // Bound to the field name only (re-encrypted by the migration job)
+
+/**
+ * Load encryption keys from the environment
+ * FIELD_ENCRYPTION_KEYS="2024-01:<base64 32 bytes>,2025-01:<base64 32 bytes>"
+ * FIELD_ENCRYPTION_ACTIVE_KEY_ID="2025-01" (defaults to the last key listed)
+ * Old keys stay listed (for decryption) until the re-encryption job has run.
+ * Outside production a throwaway key is generated when none is configured
+ * (values encrypted with it can't be read after a restart).
+ * @returns Key ring and the ID of the key used for new encryptions
+ */
+const loadKeys = (): { keys: Map<string, Buffer>; activeKeyId?: string } => {
+  const keys = new Map<string, Buffer>();
+  const rawKeys = process.env.FIELD_ENCRYPTION_KEYS || '';
+
+  for (const entry of rawKeys.split(',').map((item) => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const keyId = entry.substring(0, separator);
+    const key = Buffer.from(entry.substring(separator + 1), 'base64');
+
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error(`Invalid FIELD_ENCRYPTION_KEYS entry "${keyId || entry}": expected <keyId>:<base64 32-byte key>`);
+    }
+
+    keys.set(keyId, key);
+  }
+
+  if (keys.size === 0 && process.env.NODE_ENV !== 'production') {
+    console.warn('⚠️  FIELD_ENCRYPTION_KEYS is not set - using a temporary key (encrypted 2FA secrets will not survive a restart)');
+    keys.set(`dev-${crypto.randomBytes(4).toString('hex')}`, crypto.randomBytes(32));
+  }
+
+  const activeKeyId = process.env.FIELD_ENCRYPTION_ACTIVE_KEY_ID || Array.from(keys.keys()).pop();
+
+  if (activeKeyId && !keys.has(activeKeyId)) {
+    throw new Error(`FIELD_ENCRYPTION_ACTIVE_KEY_ID "${activeKeyId}" is not listed in FIELD_ENCRYPTION_KEYS`);
+  }
+
+  return { keys, activeKeyId };
+};
+
+const { keys: KEYS, activeKeyId: ACTIVE_KEY_ID } = loadKeys();
+
+/**
+ * Check whether a stored value is encrypted
+ * @param stored - Stored value
+ * @returns True if the value is in the encrypted format
+ */
+export const isEncryptedField = (stored: string): boolean => {
+  return stored.startsWith(ENCRYPTED_PREFIX) || stored.startsWith(LEGACY_ENCRYPTED_PREFIX);
+};
+
+/**
+ * Get the key ID an encrypted value was encrypted with
+ * @param stored - Stored encrypted value
+ * @returns Key ID, or null for plaintext values
+ */
+export const getFieldKeyId = (stored: string): string | null => {
+  if (!isEncryptedField(stored)) {
+    return null;
+  }
+  return stored.split(':')[2];
+};
+
+/**
+ * Check whether a stored value should be re-encrypted with the active key
+ * @param stored - Stored value (plaintext or encrypted)
+ * @returns True if the value is plaintext, in the old format or uses an old key
+ */
+export const needsReEncryption = (stored: string): boolean => {
+  return !stored.startsWith(ENCRYPTED_PREFIX) || getFieldKeyId(stored) !== ACTIVE_KEY_ID;
+};
+
+/**
+ * Encrypt a field value with the active key (AES-256-GCM)
+ * The ciphertext is bound to the field and its owner, so it can't be copied
+ * to another field or another document.
+ * @param plaintext - Value to encrypt
+ * @param context - Field the value is stored in (e.g. user.twoFactorSecret)
+ * @param ownerId - ID of the document the value belongs to
+ * @returns Encrypted value: enc:v2:<keyId>:<iv>:<authTag>:<ciphertext>
+ */
+export const encryptField = (plaintext: string, context: string, ownerId: string): string => {
+  if (!ACTIVE_KEY_ID) {
+    throw new Error('FIELD_ENCRYPTION_KEYS must be set in .env file to store encrypted fields');
+  }
+
+  const key = KEYS.get(ACTIVE_KEY_ID) as Buffer;
+  const iv = crypto.randomBytes(IV_LENGTH);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(`${ACTIVE_KEY_ID}:${context}:${ownerId}`));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [
+    `${ENCRYPTED_PREFIX}${ACTIVE_KEY_ID}`,
+    iv.toString('base64url'),
+    authTag.toString('base64url'),
+    ciphertext.toString('base64url')
+  ].join(':');
+};
+
+/**
+ * Decrypt a field value
+ * Plaintext values (written before encryption was enabled) are returned as-is
+ * so they keep working until the re-encryption job has run.
+ * @param stored - Stored value
+ * @param context - Field the value is stored in
+ * @param ownerId - ID of the document the value belongs to
+ * @returns Decrypted value
+ * @throws If the key is unknown or the value has been tampered with (or belongs to another document)
+ */
+export const decryptField = (stored: string, context: string, ownerId: string): string => {
+  if (!isEncryptedField(stored)) {
+    return stored;
+  }
+
+  const isLegacy = stored.startsWith(LEGACY_ENCRYPTED_PREFIX);
+  const [keyId, iv, authTag, ciphertext] = stored.split(':').slice(2);
+  const key = KEYS.get(keyId);
+
+  if (!key) {
+    throw new Error(`Unknown field encryption key "${keyId}"`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+  decipher.setAAD(Buffer.from(isLegacy ? `${keyId}:${context}` : `${keyId}:${context}:${ownerId}`));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final()
+  ]).toString('utf8');
+};
@@ -1,11 +1,57 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
+import { KeyRing, loadKeyRing, toJwks } from './jwtKeys';
 
 dotenv.config();
 
-const JWT_SECRET: string = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 const JWT_EXPIRES_IN: string | number = process.env.JWT_EXPIRES_IN || '15m'; // Access token: 15 minutes
 const REFRESH_TOKEN_EXPIRES_IN: string | number = process.env.REFRESH_TOKEN_EXPIRES_IN || '7d'; // Refresh token: 7 days
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m'; // 2FA challenge: 5 minutes
+const OAUTH_STATE_EXPIRES_IN = '10m'; // OAuth sign-in round trip: 10 minutes
+
+// Issuer of access and refresh tokens (checked on every verification)
+export const TOKEN_ISSUER = process.env.JWT_ISSUER || 'nodejs-mystery';
+
+// Audiences keep access and refresh tokens from being accepted in place of each other
+export const ACCESS_TOKEN_AUDIENCE = process.env.JWT_ACCESS_AUDIENCE || 'nodejs-mystery-api';
+const REFRESH_TOKEN_AUDIENCE = process.env.JWT_REFRESH_AUDIENCE || 'nodejs-mystery-refresh';
+
+// Access and refresh tokens are signed with separate asymmetric keys (see lib/jwtKeys);
+// access token public keys are published at /.well-known/jwks.json
+const ACCESS_KEYS = loadKeyRing('JWT_ACCESS');
+const REFRESH_KEYS = loadKeyRing('JWT_REFRESH');
+
+/**
+ * Load the secret for server-internal tokens (2FA challenge, OAuth state)
+ * @returns Secret
+ */
+const loadInternalSecret = (): string => {
+  if (process.env.JWT_SECRET) {
+    return process.env.JWT_SECRET;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in .env file');
+  }
+
+  console.warn('⚠️  JWT_SECRET is not set - using a temporary secret (pending 2FA and OAuth sign-ins will not survive a restart)');
+  return crypto.randomBytes(32).toString('hex');
+};
+
+const JWT_SECRET = loadInternalSecret();
+
+// Challenge tokens are signed with a derived key so they can never be
+// accepted as access/refresh tokens (and vice versa)
+const TWO_FACTOR_CHALLENGE_SECRET = crypto
+  .createHmac('sha256', JWT_SECRET)
+  .update('2fa-challenge')
+  .digest('hex');
+
+const OAUTH_STATE_SECRET = crypto
+  .createHmac('sha256', JWT_SECRET)
+  .update('oauth-state')
+  .digest('hex');
 
 // JWT payload interface
 export interface JWTPayload {
@@ -13,35 +59,119 @@ export interface JWTPayload {
   email: string;
   role: string;
   tokenVersion: number;
+  sessionId?: string; // Device session the token belongs to
+}
+
+// Claims of a verified access or refresh token
+export interface VerifiedTokenPayload extends JWTPayload {
+  jti: string; // Unique token ID (used to revoke a single access token)
+  iss: string;
+  aud: string;
+  iat: number;
+  exp: number; // Expiry (seconds since epoch)
+  act?: { sub: string }; // Impersonation tokens only: the admin acting as this user (RFC 8693 actor claim)
 }
 
+/**
+ * Sign a token with a key ring's active key
+ * @param payload - Token payload
+ * @param ring - Key ring
+ * @param options - Expiry, audience and other claims
+ * @returns Signed token (header carries the key ID)
+ */
+const signWithKeyRing = (payload: object, ring: KeyRing, options: jwt.SignOptions): string => {
+  const { activeKey } = ring;
+
+  return jwt.sign(payload, activeKey.privateKey, {
+    ...options,
+    algorithm: activeKey.alg,
+    keyid: activeKey.kid
+  });
+};
+
+/**
+ * Verify a token against a key ring
+ * @param token - Token string
+ * @param ring - Key ring
+ * @param audience - Expected audience
+ * @returns Decoded payload or null if invalid
+ */
+const verifyWithKeyRing = (token: string, ring: KeyRing, audience: string): VerifiedTokenPayload | null => {
+  try {
+    const decoded = jwt.decode(token, { complete: true });
+    const key = decoded?.header.kid ? ring.keys.get(decoded.header.kid) : undefined;
+
+    if (!key) {
+      return null;
+    }
+
+    // Pin the algorithm to the key so a token can't pick its own
+    const payload = jwt.verify(token, key.publicKey, {
+      algorithms: [key.alg],
+      audience,
+      issuer: TOKEN_ISSUER
+    }) as VerifiedTokenPayload;
+
+    // Every token we issue has an ID and an expiry
+    if (!payload.jti || !payload.exp) {
+      return null;
+    }
+
+    return payload;
+  } catch (error) {
+    return null;
+  }
+};
+
 /**
  * Generate Access Token (short-lived)
+ * Each access token gets a unique jti so it can be revoked on its own
  * @param payload - JWT payload (userId, email, role, tokenVersion)
  * @returns JWT access token string
  */
 export const generateAccessToken = (payload: JWTPayload): string => {
-  if (!JWT_SECRET) {
-    throw new Error('JWT_SECRET is not defined');
-  }
-  
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: JWT_EXPIRES_IN
+  return signWithKeyRing(payload, ACCESS_KEYS, {
+    expiresIn: JWT_EXPIRES_IN,
+    audience: ACCESS_TOKEN_AUDIENCE,
+    issuer: TOKEN_ISSUER,
+    jwtid: crypto.randomUUID()
   } as jwt.SignOptions);
 };
 
+/**
+ * Generate an impersonation access token
+ * An access token for the target user that is marked with the admin in the
+ * "act" claim. It belongs to no session and can't be refreshed.
+ * @param payload - JWT payload of the target user (no sessionId)
+ * @param impersonatorId - Admin acting as the user
+ * @param expiresInSeconds - Lifetime
+ * @returns JWT access token string
+ */
+export const generateImpersonationToken = (
+  payload: JWTPayload,
+  impersonatorId: string,
+  expiresInSeconds: number
+): string => {
+  return signWithKeyRing({ ...payload, act: { sub: impersonatorId } }, ACCESS_KEYS, {
+    expiresIn: expiresInSeconds,
+    audience: ACCESS_TOKEN_AUDIENCE,
+    issuer: TOKEN_ISSUER,
+    jwtid: crypto.randomUUID()
+  });
+};
+
 /**
  * Generate Refresh Token (long-lived)
+ * Each refresh token gets a unique jti so rotated tokens never collide
  * @param payload - JWT payload (userId, email, role, tokenVersion)
  * @returns JWT refresh token string
  */
 export const generateRefreshToken = (payload: JWTPayload): string => {
-  if (!JWT_SECRET) {
-    throw new Error('JWT_SECRET is not defined');
-  }
-  
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: REFRESH_TOKEN_EXPIRES_IN
+  return signWithKeyRing(payload, REFRESH_KEYS, {
+    expiresIn: REFRESH_TOKEN_EXPIRES_IN,
+    audience: REFRESH_TOKEN_AUDIENCE,
+    issuer: TOKEN_ISSUER,
+    jwtid: crypto.randomUUID()
   } as jwt.SignOptions);
 };
 
@@ -55,13 +185,98 @@ export const generateToken = (payload: JWTPayload): string => {
 };
 
 /**
- * Verify JWT token
+ * Verify access token
+ * @param token - JWT access token string
+ * @returns Decoded token payload or null if invalid
+ */
+export const verifyAccessToken = (token: string): VerifiedTokenPayload | null => {
+  return verifyWithKeyRing(token, ACCESS_KEYS, ACCESS_TOKEN_AUDIENCE);
+};
+
+/**
+ * Verify refresh token
+ * @param token - JWT refresh token string
+ * @returns Decoded token payload or null if invalid
+ */
+export const verifyRefreshToken = (token: string): VerifiedTokenPayload | null => {
+  return verifyWithKeyRing(token, REFRESH_KEYS, REFRESH_TOKEN_AUDIENCE);
+};
+
+/**
+ * Verify JWT token (alias for backward compatibility - access tokens only)
  * @param token - JWT token string
  * @returns Decoded token payload or null if invalid
  */
-export const verifyToken = (token: string): JWTPayload | null => {
+export const verifyToken = (token: string): VerifiedTokenPayload | null => {
+  return verifyAccessToken(token);
+};
+
+/**
+ * Public keys for verifying access tokens (JSON Web Key Set)
+ * @returns JWKS document
+ */
+export const getAccessTokenJwks = () => {
+  return toJwks(ACCESS_KEYS);
+};
+
+// 2FA challenge payload interface
+export interface TwoFactorChallengePayload {
+  userId: string;
+  challengeId: string;
+}
+
+/**
+ * Generate 2FA challenge token (returned by login when 2FA is required)
+ * @param payload - Challenge payload (userId, challengeId)
+ * @returns Signed challenge token string
+ */
+export const generateTwoFactorChallengeToken = (payload: TwoFactorChallengePayload): string => {
+  return jwt.sign(payload, TWO_FACTOR_CHALLENGE_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN
+  } as jwt.SignOptions);
+};
+
+/**
+ * Verify 2FA challenge token
+ * @param token - Challenge token string
+ * @returns Decoded challenge payload or null if invalid
+ */
+export const verifyTwoFactorChallengeToken = (token: string): TwoFactorChallengePayload | null => {
+  try {
+    const decoded = jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET) as TwoFactorChallengePayload;
+    return decoded;
+  } catch (error) {
+    return null;
+  }
+};
+
+// OAuth state payload interface (kept in a cookie during the provider round trip)
+export interface OAuthStatePayload {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string; // PKCE verifier (the challenge went to the provider)
+}
+
+/**
+ * Generate OAuth state token (binds a provider callback to this browser)
+ * @param payload - State payload (provider, state, nonce, codeVerifier)
+ * @returns Signed state token string
+ */
+export const generateOAuthStateToken = (payload: OAuthStatePayload): string => {
+  return jwt.sign(payload, OAUTH_STATE_SECRET, {
+    expiresIn: OAUTH_STATE_EXPIRES_IN
+  } as jwt.SignOptions);
+};
+
+/**
+ * Verify OAuth state token
+ * @param token - State token string
+ * @returns Decoded state payload or null if invalid
+ */
+export const verifyOAuthStateToken = (token: string): OAuthStatePayload | null => {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const decoded = jwt.verify(token, OAUTH_STATE_SECRET) as OAuthStatePayload;
     return decoded;
   } catch (error) {
     return null;
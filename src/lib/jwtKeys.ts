@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// jsonwebtoken 9 signs with RSA and EC keys; it has no EdDSA (Ed25519) support
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+// One signing key (private key kept for signing, public key published)
+export interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+}
+
+// Keys for one token type
+export interface KeyRing {
+  keys: Map<string, SigningKey>;
+  activeKey: SigningKey;
+}
+
+/**
+ * Pick the JWS algorithm for a private key
+ * @param privateKey - Private key
+ * @param kid - Key ID (for error messages)
+ * @returns Algorithm
+ */
+const getAlgorithm = (privateKey: crypto.KeyObject, kid: string): SigningAlgorithm => {
+  if (privateKey.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+
+  if (privateKey.asymmetricKeyType === 'ec' && privateKey.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+
+  throw new Error(`JWT key "${kid}" must be an RSA or P-256 EC private key`);
+};
+
+/**
+ * Load a signing key ring from the environment
+ * <NAME>_KEYS="2025-01:<base64 PEM private key>,2025-06:<base64 PEM private key>"
+ * <NAME>_ACTIVE_KEY_ID="2025-06" (defaults to the last key listed)
+ * Every listed key verifies tokens and is published; only the active key signs.
+ * To rotate, add the new key, make it active, and remove the old one once the
+ * tokens it signed have expired.
+ * Outside production a throwaway key is generated when none is configured
+ * (tokens stop working on restart).
+ * @param name - Environment variable prefix (e.g. 'JWT_ACCESS')
+ * @returns Key ring
+ */
+export const loadKeyRing = (name: string): KeyRing => {
+  const keys = new Map<string, SigningKey>();
+  const rawKeys = process.env[`${name}_KEYS`] || '';
+
+  for (const entry of rawKeys.split(',').map((item) => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const kid = entry.substring(0, separator);
+
+    if (separator <= 0) {
+      throw new Error(`Invalid ${name}_KEYS entry: expected <keyId>:<base64 PEM private key>`);
+    }
+
+    let privateKey: crypto.KeyObject;
+    try {
+      privateKey = crypto.createPrivateKey(Buffer.from(entry.substring(separator + 1), 'base64').toString('utf8'));
+    } catch (error) {
+      throw new Error(`Invalid ${name}_KEYS entry "${kid}": could not read the private key`);
+    }
+
+    keys.set(kid, {
+      kid,
+      alg: getAlgorithm(privateKey, kid),
+      privateKey,
+      publicKey: crypto.createPublicKey(privateKey)
+    });
+  }
+
+  if (keys.size === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(`${name}_KEYS must be set in .env file`);
+    }
+
+    console.warn(`⚠️  ${name}_KEYS is not set - using a temporary key (tokens will not survive a restart)`);
+
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const kid = `dev-${crypto.randomBytes(4).toString('hex')}`;
+    keys.set(kid, { kid, alg: 'RS256', privateKey, publicKey });
+  }
+
+  const activeKeyId = process.env[`${name}_ACTIVE_KEY_ID`] || Array.from(keys.keys()).pop() as string;
+  const activeKey = keys.get(activeKeyId);
+
+  if (!activeKey) {
+    throw new Error(`${name}_ACTIVE_KEY_ID "${activeKeyId}" is not listed in ${name}_KEYS`);
+  }
+
+  return { keys, activeKey };
+};
+
+/**
+ * Export a key ring's public keys as a JSON Web Key Set
+ * @param ring - Key ring
+ * @returns JWKS document
+ */
+export const toJwks = (ring: KeyRing): { keys: Record<string, unknown>[] } => {
+  return {
+    keys: Array.from(ring.keys.values()).map((key) => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.alg,
+      use: 'sig'
+    }))
+  };
+};
@@ -0,0 +1,358 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import type { OAuthProviderConfig } from '../config/oauth';
+
+dotenv.config();
+
+const METADATA_CACHE_MS = 60 * 60 * 1000; // Discovery documents and signing keys: 1 hour
+const HTTP_TIMEOUT_MS = parseInt(process.env.OAUTH_HTTP_TIMEOUT_MS || '10000'); // Per request to a provider
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'];
+
+// Normalized user information from a provider
+export interface OAuthProfile {
+  providerUserId: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  nonce?: string; // From the ID token (OIDC only); must match the authorization request
+}
+
+// Endpoints used by the authorization code flow
+interface ProviderEndpoints {
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl?: string;
+  issuer?: string; // OIDC only
+  jwksUri?: string; // OIDC only
+}
+
+// Values generated for one authorization request
+export interface AuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+// Key from a provider's JSON Web Key Set
+type SigningJwk = crypto.webcrypto.JsonWebKey & { kid?: string };
+
+// OIDC discovery document (only the fields used here)
+const discoverySchema = z.object({
+  authorization_endpoint: z.string(),
+  token_endpoint: z.string(),
+  userinfo_endpoint: z.string().optional(),
+  issuer: z.string(),
+  jwks_uri: z.string()
+});
+
+// JSON Web Key Set; keys are passed to crypto.createPublicKey as they are
+const jwksSchema = z.object({
+  keys: z.array(z.looseObject({ kty: z.string(), kid: z.string().optional() }))
+});
+
+// Token endpoint response
+const tokenResponseSchema = z.object({
+  access_token: z.string().optional(),
+  id_token: z.string().optional(),
+  error: z.string().optional(),
+  error_description: z.string().optional()
+});
+
+// OIDC userinfo response
+const userInfoSchema = z.object({
+  sub: z.string(),
+  email: z.string().optional(),
+  email_verified: z.union([z.boolean(), z.string()]).optional(),
+  name: z.string().optional()
+});
+
+// GitHub user and email responses
+const gitHubUserSchema = z.object({
+  id: z.union([z.number(), z.string()]),
+  login: z.string(),
+  name: z.string().nullish()
+});
+
+const gitHubEmailsSchema = z.array(
+  z.object({
+    email: z.string(),
+    primary: z.boolean(),
+    verified: z.boolean()
+  })
+);
+
+const metadataCache = new Map<string, { endpoints: ProviderEndpoints; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: SigningJwk[]; expiresAt: number }>();
+
+/**
+ * Compare two strings in constant time
+ * @param a - First string
+ * @param b - Second string
+ * @returns True if equal
+ */
+export const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * Fetch a JSON document and check its shape
+ * @param url - URL to fetch
+ * @param schema - Expected response shape
+ * @param init - Fetch options
+ * @returns Validated JSON body
+ * @throws If the response is not successful, has an unexpected shape or the provider does not answer in time
+ */
+const fetchJson = async <T>(url: string, schema: z.ZodType<T>, init: RequestInit = {}): Promise<T> => {
+  let body: unknown;
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', ...init.headers },
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`OAuth request to ${url} failed with status ${response.status}`);
+    }
+
+    body = await response.json();
+  } catch (error: any) {
+    if (error.name === 'TimeoutError') {
+      throw new Error(`OAuth request to ${url} timed out after ${HTTP_TIMEOUT_MS}ms`);
+    }
+
+    throw error;
+  }
+
+  const parsed = schema.safeParse(body);
+
+  if (!parsed.success) {
+    throw new Error(`Unexpected response from OAuth request to ${url}`);
+  }
+
+  return parsed.data;
+};
+
+/**
+ * Resolve a provider's endpoints (OIDC providers use their discovery document)
+ * @param provider - Provider config
+ * @returns Provider endpoints
+ */
+const getEndpoints = async (provider: OAuthProviderConfig): Promise<ProviderEndpoints> => {
+  if (provider.type === 'oauth2') {
+    return {
+      authorizationUrl: provider.authorizationUrl as string,
+      tokenUrl: provider.tokenUrl as string
+    };
+  }
+
+  const discoveryUrl = provider.discoveryUrl as string;
+  const cached = metadataCache.get(discoveryUrl);
+
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.endpoints;
+  }
+
+  const metadata = await fetchJson(discoveryUrl, discoverySchema);
+  const endpoints: ProviderEndpoints = {
+    authorizationUrl: metadata.authorization_endpoint,
+    tokenUrl: metadata.token_endpoint,
+    userInfoUrl: metadata.userinfo_endpoint,
+    issuer: metadata.issuer,
+    jwksUri: metadata.jwks_uri
+  };
+
+  metadataCache.set(discoveryUrl, { endpoints, expiresAt: Date.now() + METADATA_CACHE_MS });
+
+  return endpoints;
+};
+
+/**
+ * Find the key an ID token was signed with
+ * Refetches the key set once when the key ID is unknown (the provider rotated keys).
+ * @param jwksUri - Provider key set URL
+ * @param kid - Key ID from the token header
+ * @returns Public key, or null if not found
+ */
+const getSigningKey = async (jwksUri: string, kid?: string): Promise<crypto.KeyObject | null> => {
+  const findKey = (keys: SigningJwk[]) => keys.find((key) => !kid || key.kid === kid);
+
+  const cached = jwksCache.get(jwksUri);
+  let jwk = cached && cached.expiresAt > Date.now() ? findKey(cached.keys) : undefined;
+
+  if (!jwk) {
+    const { keys } = await fetchJson(jwksUri, jwksSchema);
+    jwksCache.set(jwksUri, { keys, expiresAt: Date.now() + METADATA_CACHE_MS });
+    jwk = findKey(keys);
+  }
+
+  return jwk ? crypto.createPublicKey({ key: jwk, format: 'jwk' }) : null;
+};
+
+/**
+ * Verify an ID token's signature, issuer, audience and expiry
+ * @param provider - Provider config
+ * @param endpoints - Provider endpoints
+ * @param idToken - ID token from the token endpoint
+ * @returns Token claims
+ * @throws If the token is invalid
+ */
+const verifyIdToken = async (
+  provider: OAuthProviderConfig,
+  endpoints: ProviderEndpoints,
+  idToken: string
+): Promise<jwt.JwtPayload> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+
+  if (!decoded || typeof decoded.payload === 'string' || !endpoints.jwksUri || !endpoints.issuer) {
+    throw new Error(`Invalid ID token from ${provider.name}`);
+  }
+
+  const key = await getSigningKey(endpoints.jwksUri, decoded.header.kid);
+
+  if (!key) {
+    throw new Error(`Unknown ID token signing key from ${provider.name}`);
+  }
+
+  // Multi-tenant issuers (Microsoft "common") contain a tenant placeholder
+  const issuer = endpoints.issuer.replace('{tenantid}', String(decoded.payload.tid));
+
+  return jwt.verify(idToken, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    audience: provider.clientId,
+    issuer
+  }) as jwt.JwtPayload;
+};
+
+/**
+ * Build the provider consent URL with state, nonce and a PKCE challenge
+ * @param provider - Provider config
+ * @returns Consent URL and the values the callback must match
+ */
+export const createAuthorizationRequest = async (provider: OAuthProviderConfig): Promise<AuthorizationRequest> => {
+  const { authorizationUrl } = await getEndpoints(provider);
+
+  const state = crypto.randomBytes(32).toString('base64url');
+  const nonce = crypto.randomBytes(32).toString('base64url');
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const url = new URL(authorizationUrl);
+
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    scope: provider.scopes.join(' '),
+    ...provider.authorizationParams,
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    // Plain OAuth 2.0 providers issue no ID token to carry a nonce
+    ...(provider.type === 'oidc' ? { nonce } : {})
+  }).toString();
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+};
+
+/**
+ * Exchange an authorization code and read the user's profile
+ * @param provider - Provider config
+ * @param code - Authorization code from the callback
+ * @param codeVerifier - PKCE verifier from the authorization request
+ * @returns Normalized profile
+ */
+export const fetchOAuthProfile = async (
+  provider: OAuthProviderConfig,
+  code: string,
+  codeVerifier: string
+): Promise<OAuthProfile> => {
+  const endpoints = await getEndpoints(provider);
+
+  const tokens = await fetchJson(endpoints.tokenUrl, tokenResponseSchema, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: provider.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: codeVerifier
+    }).toString()
+  });
+
+  // Some providers (GitHub) report errors with a 200 status
+  if (tokens.error || !tokens.access_token) {
+    throw new Error(`Token exchange with ${provider.name} failed: ${tokens.error_description || tokens.error || 'no access token'}`);
+  }
+
+  if (provider.type === 'oauth2') {
+    if (!provider.fetchProfile) {
+      throw new Error(`OAuth provider ${provider.name} has no profile loader`);
+    }
+    return provider.fetchProfile(tokens.access_token);
+  }
+
+  if (!tokens.id_token) {
+    throw new Error(`No ID token from ${provider.name}`);
+  }
+
+  const claims = await verifyIdToken(provider, endpoints, tokens.id_token);
+
+  if (!claims.sub) {
+    throw new Error(`ID token from ${provider.name} has no subject`);
+  }
+
+  let { email, email_verified: emailVerified, name } = claims;
+
+  // Some providers only return the email from the userinfo endpoint
+  if (!email && endpoints.userInfoUrl) {
+    const userInfo = await fetchJson(endpoints.userInfoUrl, userInfoSchema, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` }
+    });
+
+    if (userInfo.sub === claims.sub) {
+      ({ email, email_verified: emailVerified } = userInfo);
+      name = name || userInfo.name;
+    }
+  }
+
+  return {
+    providerUserId: claims.sub,
+    email: typeof email === 'string' ? email.toLowerCase() : undefined,
+    emailVerified: emailVerified === true || emailVerified === 'true',
+    name,
+    nonce: typeof claims.nonce === 'string' ? claims.nonce : undefined
+  };
+};
+
+/**
+ * Read a GitHub user's profile (GitHub is OAuth 2.0 only, without ID tokens)
+ * @param accessToken - GitHub access token
+ * @returns Normalized profile, using the primary verified email
+ */
+export const fetchGitHubProfile = async (accessToken: string): Promise<OAuthProfile> => {
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    'User-Agent': 'nodejs-mystery'
+  };
+
+  const user = await fetchJson('https://api.github.com/user', gitHubUserSchema, { headers });
+  const emails = await fetchJson('https://api.github.com/user/emails', gitHubEmailsSchema, { headers });
+
+  const primary = emails.find((entry) => entry.primary && entry.verified);
+
+  return {
+    providerUserId: String(user.id),
+    email: primary ? primary.email.toLowerCase() : undefined,
+    emailVerified: Boolean(primary),
+    name: user.name || user.login
+  };
+};
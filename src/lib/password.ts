@@ -1,22 +1,163 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
 import bcrypt from 'bcryptjs';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Scheme for new hashes: scrypt (memory-hard, default) or bcrypt
+const PASSWORD_HASH_ALGORITHM = process.env.PASSWORD_HASH_ALGORITHM === 'bcrypt' ? 'bcrypt' : 'scrypt';
+
+// Cost settings (raising them upgrades existing hashes on the next login)
+const SCRYPT_LOG_N = parseInt(process.env.PASSWORD_SCRYPT_LOG_N || '15'); // N = 2^15
+const SCRYPT_BLOCK_SIZE = parseInt(process.env.PASSWORD_SCRYPT_BLOCK_SIZE || '8');
+const SCRYPT_PARALLELIZATION = parseInt(process.env.PASSWORD_SCRYPT_PARALLELIZATION || '1');
+const BCRYPT_ROUNDS = parseInt(process.env.PASSWORD_BCRYPT_ROUNDS || '12');
+
+const SCRYPT_VERSION = 1;
+const SCRYPT_SALT_BYTES = 16;
+const SCRYPT_KEY_BYTES = 32;
+
+// Parameters of a scrypt hash
+interface ScryptParams {
+  logN: number;
+  blockSize: number;
+  parallelization: number;
+}
+
+/**
+ * Memory limit for a scrypt call (Node's default of 32 MB is too low for N = 2^15, r = 8)
+ * @param params - scrypt parameters
+ * @returns Byte limit
+ */
+const getScryptMaxmem = (params: ScryptParams): number => {
+  return 256 * Math.pow(2, params.logN) * params.blockSize;
+};
 
 /**
- * Hash a password using bcrypt
+ * Derive a scrypt key
  * @param password - Plain text password
- * @param saltRounds - Number of salt rounds (default: 10)
- * @returns Hashed password
+ * @param salt - Salt
+ * @param params - scrypt parameters
+ * @returns Derived key
  */
-export const hashPassword = async (password: string, saltRounds: number = 10): Promise<string> => {
-  return await bcrypt.hash(password, saltRounds);
+const deriveScryptKey = (password: string, salt: Buffer, params: ScryptParams): Promise<Buffer> => {
+  return scrypt(password.normalize('NFKC'), salt, SCRYPT_KEY_BYTES, {
+    N: Math.pow(2, params.logN),
+    r: params.blockSize,
+    p: params.parallelization,
+    maxmem: getScryptMaxmem(params)
+  });
+};
+
+/**
+ * Parse a versioned scrypt hash
+ * Format: $scrypt$v=1$ln=15,r=8,p=1$<base64 salt>$<base64 key>
+ * @param hashedPassword - Stored hash
+ * @returns Parameters, salt and key, or null if not a scrypt hash
+ */
+const parseScryptHash = (hashedPassword: string): { params: ScryptParams; salt: Buffer; key: Buffer } | null => {
+  const match = /^\$scrypt\$v=(\d+)\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/.exec(hashedPassword);
+
+  if (!match || parseInt(match[1]) !== SCRYPT_VERSION) {
+    return null;
+  }
+
+  return {
+    params: {
+      logN: parseInt(match[2]),
+      blockSize: parseInt(match[3]),
+      parallelization: parseInt(match[4])
+    },
+    salt: Buffer.from(match[5], 'base64'),
+    key: Buffer.from(match[6], 'base64')
+  };
+};
+
+/**
+ * Check whether a hash is a bcrypt hash ($2a$, $2b$ or $2y$)
+ * @param hashedPassword - Stored hash
+ * @returns True for bcrypt
+ */
+const isBcryptHash = (hashedPassword: string): boolean => {
+  return /^\$2[aby]\$\d{2}\$/.test(hashedPassword);
+};
+
+/**
+ * Hash a password with the current scheme and cost
+ * @param password - Plain text password
+ * @returns Versioned hash (scrypt) or bcrypt hash
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  if (PASSWORD_HASH_ALGORITHM === 'bcrypt') {
+    return await bcrypt.hash(password, BCRYPT_ROUNDS);
+  }
+
+  const params: ScryptParams = {
+    logN: SCRYPT_LOG_N,
+    blockSize: SCRYPT_BLOCK_SIZE,
+    parallelization: SCRYPT_PARALLELIZATION
+  };
+  const salt = crypto.randomBytes(SCRYPT_SALT_BYTES);
+  const key = await deriveScryptKey(password, salt, params);
+
+  return [
+    '',
+    'scrypt',
+    `v=${SCRYPT_VERSION}`,
+    `ln=${params.logN},r=${params.blockSize},p=${params.parallelization}`,
+    salt.toString('base64').replace(/=+$/, ''),
+    key.toString('base64').replace(/=+$/, '')
+  ].join('$');
 };
 
 /**
  * Compare a plain text password with a hashed password
+ * Accepts scrypt hashes and legacy bcrypt hashes.
  * @param password - Plain text password
  * @param hashedPassword - Hashed password to compare against
  * @returns True if passwords match, false otherwise
  */
 export const comparePassword = async (password: string, hashedPassword: string): Promise<boolean> => {
-  return await bcrypt.compare(password, hashedPassword);
+  if (isBcryptHash(hashedPassword)) {
+    return await bcrypt.compare(password, hashedPassword);
+  }
+
+  const parsed = parseScryptHash(hashedPassword);
+
+  if (!parsed) {
+    return false;
+  }
+
+  const key = await deriveScryptKey(password, parsed.salt, parsed.params);
+
+  return key.length === parsed.key.length && crypto.timingSafeEqual(key, parsed.key);
 };
 
+/**
+ * Check whether a hash should be replaced with one using the current scheme and cost
+ * @param hashedPassword - Stored hash
+ * @returns True if the hash is outdated
+ */
+export const needsRehash = (hashedPassword: string): boolean => {
+  if (isBcryptHash(hashedPassword)) {
+    return PASSWORD_HASH_ALGORITHM !== 'bcrypt' || bcrypt.getRounds(hashedPassword) < BCRYPT_ROUNDS;
+  }
+
+  const parsed = parseScryptHash(hashedPassword);
+
+  if (!parsed || PASSWORD_HASH_ALGORITHM !== 'scrypt') {
+    return true;
+  }
+
+  return parsed.params.logN < SCRYPT_LOG_N ||
+    parsed.params.blockSize !== SCRYPT_BLOCK_SIZE ||
+    parsed.params.parallelization !== SCRYPT_PARALLELIZATION;
+};
@@ -0,0 +1,213 @@
+import fs from 'fs/promises';
+import { passwordPolicy } from '../config/passwordPolicy';
+import { BloomFilter, bloomFilterHas, parseBloomFilter } from './bloomFilter';
+import { comparePassword } from './password';
+
+// Who the password is for (used to reject passwords built from personal info)
+export interface PasswordContext {
+  name?: string;
+  email?: string;
+}
+
+// Result of checking a password against the policy
+export interface PasswordPolicyResult {
+  valid: boolean;
+  errors: string[];
+}
+
+// Character classes and the number of characters each adds to the guessing pool
+const CHARACTER_CLASSES: { pattern: RegExp; size: number }[] = [
+  { pattern: /[a-z]/, size: 26 },
+  { pattern: /[A-Z]/, size: 26 },
+  { pattern: /[0-9]/, size: 10 },
+  { pattern: /[^a-zA-Z0-9]/, size: 33 }
+];
+
+const MIN_PERSONAL_INFO_LENGTH = 3; // Shorter name parts match too many passwords
+
+// Breached password filter (loaded on first use)
+let breachedFilter: Promise<BloomFilter | null> | undefined;
+
+/**
+ * Count the character classes used in a password
+ * @param password - Plain text password
+ * @returns Number of classes (0-4)
+ */
+const countCharacterClasses = (password: string): number => {
+  return CHARACTER_CLASSES.filter(({ pattern }) => pattern.test(password)).length;
+};
+
+/**
+ * Estimate password entropy in bits
+ * Pool size comes from the character classes used; characters that repeat
+ * or continue a sequence (aaa, abc, 321) add nothing.
+ * @param password - Plain text password
+ * @returns Estimated entropy in bits
+ */
+export const estimatePasswordEntropy = (password: string): number => {
+  const poolSize = CHARACTER_CLASSES
+    .filter(({ pattern }) => pattern.test(password))
+    .reduce((total, { size }) => total + size, 0);
+
+  if (poolSize === 0) {
+    return 0;
+  }
+
+  const chars = Array.from(password);
+  let effectiveLength = 0;
+
+  chars.forEach((char, index) => {
+    const previous = index > 0 ? chars[index - 1].codePointAt(0) as number : undefined;
+    const current = char.codePointAt(0) as number;
+
+    if (previous === undefined || Math.abs(current - previous) > 1) {
+      effectiveLength += 1;
+    }
+  });
+
+  return effectiveLength * Math.log2(poolSize);
+};
+
+/**
+ * Load the breached password bloom filter
+ * A missing file disables the check (with a warning) rather than blocking sign-ups.
+ * @returns Filter, or null if not configured or unreadable
+ */
+const loadBreachedFilter = async (): Promise<BloomFilter | null> => {
+  if (!passwordPolicy.breachedListPath) {
+    return null;
+  }
+
+  try {
+    return parseBloomFilter(await fs.readFile(passwordPolicy.breachedListPath));
+  } catch (error: any) {
+    console.warn(`⚠️  Breached password list not loaded (${passwordPolicy.breachedListPath}): ${error.message}`);
+    console.warn('⚠️  BREACHED PASSWORD CHECK IS DISABLED - run npm run passwords:build-default-bloom (or passwords:build-bloom with a larger list), or set PASSWORD_BREACHED_LIST=off to silence this');
+    return null;
+  }
+};
+
+/**
+ * Load the breached password list at startup (so a missing list is reported at boot, not on the first sign-up)
+ */
+export const loadBreachedPasswordList = async (): Promise<void> => {
+  if (!breachedFilter) {
+    breachedFilter = loadBreachedFilter();
+  }
+
+  await breachedFilter;
+};
+
+/**
+ * Check a password against the offline breached password list
+ * @param password - Plain text password
+ * @returns True if the password is (probably) in the list
+ */
+export const isBreachedPassword = async (password: string): Promise<boolean> => {
+  if (!breachedFilter) {
+    breachedFilter = loadBreachedFilter();
+  }
+
+  const filter = await breachedFilter;
+
+  return filter ? bloomFilterHas(filter, password) : false;
+};
+
+/**
+ * Find personal info (name parts, email local part and domain) in a password
+ * @param password - Plain text password
+ * @param context - Name and email of the user
+ * @returns True if the password contains any of them
+ */
+const containsPersonalInfo = (password: string, context: PasswordContext): boolean => {
+  const lowerPassword = password.toLowerCase();
+  const parts: string[] = [];
+
+  if (context.name) {
+    parts.push(...context.name.toLowerCase().split(/\s+/));
+  }
+
+  if (context.email) {
+    const [localPart, domain] = context.email.toLowerCase().split('@');
+    parts.push(...localPart.split(/[._+-]+/), localPart);
+    if (domain) {
+      parts.push(domain.split('.')[0]);
+    }
+  }
+
+  return parts
+    .filter((part) => part.length >= MIN_PERSONAL_INFO_LENGTH)
+    .some((part) => lowerPassword.includes(part));
+};
+
+/**
+ * Check a new password against the password policy (see config/passwordPolicy)
+ * Reuse of previous passwords is checked separately with isPasswordReused.
+ * @param password - Plain text password
+ * @param context - Name and email of the user
+ * @returns Whether the password is acceptable and why not
+ */
+export const validatePassword = async (
+  password: string,
+  context: PasswordContext = {}
+): Promise<PasswordPolicyResult> => {
+  const errors: string[] = [];
+
+  if (password.length < passwordPolicy.minLength) {
+    errors.push(`Password must be at least ${passwordPolicy.minLength} characters`);
+  }
+
+  if (password.length > passwordPolicy.maxLength) {
+    errors.push(`Password cannot exceed ${passwordPolicy.maxLength} characters`);
+  }
+
+  if (countCharacterClasses(password) < passwordPolicy.minCharacterClasses) {
+    errors.push(
+      `Password must use at least ${passwordPolicy.minCharacterClasses} of: lowercase letters, uppercase letters, numbers and symbols`
+    );
+  }
+
+  if (estimatePasswordEntropy(password) < passwordPolicy.minEntropyBits) {
+    errors.push('Password is too easy to guess. Avoid repeated characters and sequences, or make it longer.');
+  }
+
+  if (passwordPolicy.disallowPersonalInfo && containsPersonalInfo(password, context)) {
+    errors.push('Password must not contain your name or email address');
+  }
+
+  // Skip the lookup when the password is already rejected
+  if (errors.length === 0 && await isBreachedPassword(password)) {
+    errors.push('This password has appeared in a data breach. Please choose a different password.');
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Check whether a password matches the current or a recent password
+ * @param password - Plain text password
+ * @param previousHashes - Current password hash followed by the password history
+ * @returns True if the password was used before
+ */
+export const isPasswordReused = async (password: string, previousHashes: (string | undefined)[]): Promise<boolean> => {
+  const hashes = Array.from(new Set(previousHashes.filter((hash): hash is string => Boolean(hash))))
+    .slice(0, Math.max(1, passwordPolicy.historySize));
+
+  for (const hash of hashes) {
+    if (await comparePassword(password, hash)) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Add a new password hash to the history, keeping the most recent entries
+ * @param history - Current history (most recent first)
+ * @param passwordHash - Hash of the new password
+ * @returns Updated history
+ */
+export const addToPasswordHistory = (history: string[] | undefined, passwordHash: string): string[] => {
+  return [passwordHash, ...(history || [])].slice(0, passwordPolicy.historySize);
+};
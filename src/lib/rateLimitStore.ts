@@ -0,0 +1,93 @@
+import RateLimit from '../models/rateLimit.model';
+
+// Limiter state is a small bag of numbers (token bucket or sliding window counters)
+export type RateLimitState = Record<string, number>;
+
+// Storage backend for rate limiter state
+export interface RateLimitStore {
+  // Atomically replace a key's state with the one computed from it. Resolves
+  // to the computed result, or null if the state kept changing underneath
+  // (heavy contention on one key).
+  update: <T extends { state: RateLimitState }>(
+    key: string,
+    compute: (state: RateLimitState | null) => T,
+    ttlMs: number
+  ) => Promise<T | null>;
+}
+
+// Compare-and-swap retries before a contended update gives up
+const MAX_UPDATE_ATTEMPTS = 10;
+
+/**
+ * Create an in-memory store
+ * Fast, but state is per process and lost on restart
+ * @param cleanupIntervalMs - How often expired entries are purged (default: 1 minute)
+ * @returns Rate limit store
+ */
+export const createMemoryStore = (cleanupIntervalMs: number = 60 * 1000): RateLimitStore => {
+  const entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
+
+  const timer = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+  }, cleanupIntervalMs);
+
+  // Don't keep the process alive just for cleanup
+  timer.unref();
+
+  return {
+    // Read and write happen in the same tick, so this is atomic
+    update: async (key, compute, ttlMs) => {
+      const entry = entries.get(key);
+      const result = compute(entry && entry.expiresAt > Date.now() ? entry.state : null);
+      entries.set(key, { state: result.state, expiresAt: Date.now() + ttlMs });
+      return result;
+    }
+  };
+};
+
+/**
+ * Create a MongoDB-backed store
+ * Shared between processes and survives restarts. Updates are
+ * compare-and-swap on a version number, so parallel requests (from any
+ * process) can't all read the same state and each count only themselves.
+ * @returns Rate limit store
+ */
+export const createMongoStore = (): RateLimitStore => {
+  return {
+    update: async (key, compute, ttlMs) => {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const entry = await RateLimit.findOne({ key }).lean();
+        const result = compute(entry && entry.expiresAt > new Date() ? entry.state : null);
+        const expiresAt = new Date(Date.now() + ttlMs);
+
+        try {
+          if (!entry) {
+            // Loses to a parallel insert on the unique key (retried below)
+            await RateLimit.create({ key, state: result.state, expiresAt, version: 0 });
+            return result;
+          }
+
+          const updated = await RateLimit.updateOne(
+            { _id: entry._id, version: entry.version ?? { $exists: false } },
+            { $set: { state: result.state, expiresAt }, $inc: { version: 1 } }
+          );
+
+          if (updated.modifiedCount > 0) {
+            return result;
+          }
+        } catch (error: any) {
+          if (error.code !== 11000) {
+            throw error;
+          }
+        }
+      }
+
+      return null;
+    }
+  };
+};
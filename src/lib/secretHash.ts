@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Load the key for hashing stored secrets (also signs CSRF tokens)
+ * @returns Key
+ */
+const loadSecretHashKey = (): string => {
+  if (process.env.SECRET_HASH_KEY) {
+    return process.env.SECRET_HASH_KEY;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SECRET_HASH_KEY must be set in .env file');
+  }
+
+  console.warn('⚠️  SECRET_HASH_KEY is not set - using a temporary key (stored tokens, codes and API keys will not survive a restart)');
+  return crypto.randomBytes(32).toString('hex');
+};
+
+const SECRET_HASH_KEY = loadSecretHashKey();
+
+// Prefix marking a stored value as hashed (lets migrations skip hashed values)
+export const SECRET_HASH_PREFIX = 'hmac-sha256$';
+
+/**
+ * Hash a one-time secret (verification/reset tokens, refresh tokens, backup codes)
+ * Uses a keyed hash (HMAC-SHA256) so a leaked database alone can't be used to
+ * confirm guesses. Output is deterministic, so hashed values can be looked up.
+ * @param value - Plain secret
+ * @returns Hashed secret with prefix
+ */
+export const hashSecret = (value: string): string => {
+  const digest = crypto.createHmac('sha256', SECRET_HASH_KEY).update(value).digest('hex');
+  return `${SECRET_HASH_PREFIX}${digest}`;
+};
+
+/**
+ * Check whether a stored value is already hashed
+ * @param stored - Stored value
+ * @returns True if the value carries the hash prefix
+ */
+export const isHashedSecret = (stored: string): boolean => {
+  return stored.startsWith(SECRET_HASH_PREFIX);
+};
+
+/**
+ * Compare a plain secret with a stored hash in constant time
+ * @param value - Plain secret presented by the client
+ * @param storedHash - Hash stored in the database
+ * @returns True if they match
+ */
+export const compareSecret = (value: string, storedHash: string): boolean => {
+  const candidate = Buffer.from(hashSecret(value));
+  const stored = Buffer.from(storedHash);
+
+  if (candidate.length !== stored.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(candidate, stored);
+};
@@ -1,6 +1,12 @@
 import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
 import crypto from 'crypto';
+import { hashSecret, compareSecret } from './secretHash';
+import { encryptField, decryptField } from './fieldEncryption';
+import type { IUser, TwoFactorMethod } from '../models/user.model';
+
+// Associated data binding encrypted secrets to this field
+export const TWO_FACTOR_SECRET_CONTEXT = 'user.twoFactorSecret';
 
 /**
  * Generate a secret key for 2FA
@@ -37,14 +43,40 @@ export const generateTwoFactorSecret = async (
   };
 };
 
+/**
+ * Get the code-based second factors a user has enrolled
+ * Passkeys are tracked in their own collection: a user with only passkeys has
+ * isTwoFactorEnabled set and no methods listed. (Accounts that turned on TOTP
+ * before factors were tracked individually are moved over by
+ * npm run migrate:two-factor-methods.)
+ * @param user - User document
+ * @returns Enrolled methods
+ */
+export const getTwoFactorMethods = (user: Pick<IUser, 'twoFactorMethods'>): TwoFactorMethod[] => {
+  return [...(user.twoFactorMethods || [])];
+};
+
+/**
+ * Encrypt a 2FA secret for storage
+ * @param secret - Plain base32 secret
+ * @param userId - Owner of the secret (it won't decrypt for anyone else)
+ * @returns Encrypted secret (carries the encryption key ID)
+ */
+export const encryptTwoFactorSecret = (secret: string, userId: string): string => {
+  return encryptField(secret, TWO_FACTOR_SECRET_CONTEXT, userId);
+};
+
 /**
  * Verify 2FA token
  * @param token - 6-digit code from authenticator app
- * @param secret - User's 2FA secret (base32)
+ * @param storedSecret - User's 2FA secret as stored (encrypted, or legacy base32)
+ * @param userId - Owner of the secret
  * @returns True if token is valid, false otherwise
  */
-export const verifyTwoFactorToken = (token: string, secret: string): boolean => {
+export const verifyTwoFactorToken = (token: string, storedSecret: string, userId: string): boolean => {
   try {
+    const secret = decryptField(storedSecret, TWO_FACTOR_SECRET_CONTEXT, userId);
+
     const verified = speakeasy.totp.verify({
       secret,
       encoding: 'base32',
@@ -59,10 +91,19 @@ export const verifyTwoFactorToken = (token: string, secret: string): boolean =>
   }
 };
 
+/**
+ * Normalize a backup code as typed by the user
+ * @param code - Backup code
+ * @returns Upper-cased, trimmed code
+ */
+export const normalizeBackupCode = (code: string): string => {
+  return code.toUpperCase().trim();
+};
+
 /**
  * Generate backup codes for 2FA
  * @param count - Number of backup codes to generate (default: 10)
- * @returns Array of backup codes
+ * @returns Array of backup codes (plain - hash before storing)
  */
 export const generateBackupCodes = (count: number = 10): string[] => {
   const codes: string[] = [];
@@ -77,13 +118,30 @@ export const generateBackupCodes = (count: number = 10): string[] => {
 };
 
 /**
- * Verify backup code
- * @param code - Backup code to verify
- * @param backupCodes - Array of valid backup codes
- * @returns True if code is valid, false otherwise
+ * Hash backup codes for storage
+ * @param codes - Plain backup codes
+ * @returns Hashed backup codes
  */
-export const verifyBackupCode = (code: string, backupCodes: string[]): boolean => {
-  const normalizedCode = code.toUpperCase().trim();
-  return backupCodes.includes(normalizedCode);
+export const hashBackupCodes = (codes: string[]): string[] => {
+  return codes.map((code) => hashSecret(normalizeBackupCode(code)));
 };
 
+/**
+ * Find a backup code among the stored hashes
+ * Checks every stored hash (no early exit) so timing doesn't reveal the position
+ * @param code - Backup code to verify
+ * @param backupCodes - Array of hashed backup codes
+ * @returns Index of the matching code, or -1 if none matches
+ */
+export const findBackupCode = (code: string, backupCodes: string[]): number => {
+  const normalizedCode = normalizeBackupCode(code);
+  let matchIndex = -1;
+
+  backupCodes.forEach((storedHash, index) => {
+    if (compareSecret(normalizedCode, storedHash) && matchIndex === -1) {
+      matchIndex = index;
+    }
+  });
+
+  return matchIndex;
+};
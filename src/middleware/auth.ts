@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import User from '../models/user.model';
-import { verifyToken } from '../lib/jwt';
+import { verifyAccessToken } from '../lib/jwt';
+import { isAccessTokenRevoked } from '../services/tokenRevocation.service';
+import { isApiKey, authenticateApiKey } from '../services/apiKey.service';
+import { recordAuditEvent } from '../services/audit.service';
 
 // Extend Express Request to include user
 declare global {
@@ -10,14 +13,67 @@ declare global {
         id: string;
         email: string;
         role: string;
+        sessionId?: string;
+        tokenId?: string; // jti of the access token used for this request
+        apiKeyId?: string; // Set when the request was made with an API key
+        scopes?: string[]; // API key scopes (undefined for signed-in sessions)
+        impersonatorId?: string; // Set when an admin is impersonating this user
       };
     }
   }
 }
 
+/**
+ * Authenticate a request made with an API key
+ * @returns True if the request may continue (response already sent otherwise)
+ */
+const authenticateWithApiKey = async (
+  req: Request,
+  res: Response,
+  key: string
+): Promise<boolean> => {
+  const apiKey = await authenticateApiKey(key);
+
+  if (!apiKey) {
+    res.status(401).json({
+      success: false,
+      message: 'Invalid or expired API key.'
+    });
+    return false;
+  }
+
+  const user = await User.findById(apiKey.userId);
+
+  if (!user) {
+    res.status(401).json({
+      success: false,
+      message: 'User not found'
+    });
+    return false;
+  }
+
+  if (!user.isEmailVerified) {
+    res.status(403).json({
+      success: false,
+      message: 'Please verify your email before accessing this resource.'
+    });
+    return false;
+  }
+
+  req.user = {
+    id: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    apiKeyId: apiKey._id.toString(),
+    scopes: apiKey.scopes
+  };
+
+  return true;
+};
+
 /**
  * Authentication middleware
- * Verifies JWT token and attaches user to request
+ * Verifies JWT token (or API key) and attaches user to request
  */
 export const authenticate = async (
   req: Request,
@@ -25,9 +81,19 @@ export const authenticate = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    // Get token from cookie or Authorization header
-    const token = req.cookies.accessToken || 
-                  req.headers.authorization?.replace('Bearer ', '');
+    // API keys are only accepted in the Authorization header
+    const bearer = req.headers.authorization?.replace('Bearer ', '');
+
+    if (bearer && isApiKey(bearer)) {
+      if (await authenticateWithApiKey(req, res, bearer)) {
+        next();
+      }
+      return;
+    }
+
+    // Get token from Authorization header or cookie (the header wins, so API
+    // clients are never treated as cookie-authenticated; see middleware/csrf)
+    const token = bearer || req.cookies.accessToken;
 
     if (!token) {
       res.status(401).json({
@@ -38,7 +104,7 @@ export const authenticate = async (
     }
 
     // Verify token
-    const decoded = verifyToken(token);
+    const decoded = verifyAccessToken(token);
 
     if (!decoded) {
       res.status(401).json({
@@ -48,6 +114,15 @@ export const authenticate = async (
       return;
     }
 
+    // Check if this specific token was revoked (logout, session revoked by the user or an admin)
+    if (await isAccessTokenRevoked(decoded.jti)) {
+      res.status(401).json({
+        success: false,
+        message: 'Token has been revoked. Please login again.'
+      });
+      return;
+    }
+
     // Find user and check token version
     const user = await User.findById(decoded.userId);
 
@@ -77,13 +152,46 @@ export const authenticate = async (
       return;
     }
 
+    // Impersonation tokens only work while the admin who started them is still an admin
+    const impersonatorId = decoded.act?.sub;
+
+    if (impersonatorId) {
+      const impersonator = await User.findById(impersonatorId);
+
+      if (!impersonator || impersonator.role !== 'admin') {
+        res.status(401).json({
+          success: false,
+          message: 'Impersonation is no longer allowed. Please start it again.'
+        });
+        return;
+      }
+    }
+
     // Attach user to request
     req.user = {
       id: user._id.toString(),
       email: user.email,
-      role: user.role
+      role: user.role,
+      sessionId: decoded.sessionId,
+      tokenId: decoded.jti,
+      impersonatorId
     };
 
+    // Record every request made while impersonating, with its outcome
+    if (impersonatorId) {
+      const method = req.method;
+      const path = req.originalUrl.split('?')[0];
+
+      res.on('finish', () => {
+        void recordAuditEvent({
+          type: 'impersonation_request',
+          outcome: res.statusCode < 400 ? 'success' : 'failure',
+          req,
+          metadata: { method, path, statusCode: res.statusCode, tokenId: decoded.jti }
+        });
+      });
+    }
+
     next();
   } catch (error: any) {
     console.error('Authentication error:', error);
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { ApiKeyScope } from '../models/apiKey.model';
 
 /**
  * Authorization middleware
@@ -38,6 +39,77 @@ export const authorize = (allowedRoles: string[]) => {
   };
 };
 
+/**
+ * Scope middleware
+ * Limits requests made with an API key to the scopes the key was granted.
+ * Signed-in sessions have every scope.
+ *
+ * @param requiredScope - Scope the route needs
+ * @returns Middleware function
+ *
+ * @example
+ * router.get('/tasks', authenticate, requireScope('tasks:read'), getTasks);
+ */
+export const requireScope = (requiredScope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    if (req.user.scopes && !req.user.scopes.includes(requiredScope)) {
+      res.status(403).json({
+        success: false,
+        message: 'Forbidden: This API key does not have the required scope',
+        requiredScope
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Session middleware
+ * Rejects API keys and impersonation tokens on routes that manage the
+ * account itself (passwords, 2FA, sessions, keys, admin actions) or that no
+ * scope covers.
+ *
+ * @example
+ * router.post('/change-password', authenticate, requireSession, changePassword);
+ */
+export const requireSession = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+    return;
+  }
+
+  if (req.user.apiKeyId) {
+    res.status(403).json({
+      success: false,
+      message: 'Forbidden: This endpoint cannot be used with an API key'
+    });
+    return;
+  }
+
+  if (req.user.impersonatorId) {
+    res.status(403).json({
+      success: false,
+      message: 'Forbidden: This endpoint cannot be used while impersonating a user'
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Check if user owns the resource or is admin
  * Useful for resources where users can only access their own data
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+
+export interface CorsOptions {
+  allowedOrigins: string[]; // Exact origins (scheme, host and port)
+  allowCredentials: boolean; // Let browsers send cookies cross-origin
+  allowedMethods: string[];
+  allowedHeaders: string[];
+  exposedHeaders: string[];
+  maxAgeSeconds: number; // How long browsers may cache a preflight
+}
+
+/**
+ * Normalize an origin for comparison (no trailing slash, lowercase)
+ * @param origin - Origin or URL
+ * @returns Normalized origin
+ */
+const normalizeOrigin = (origin: string): string => {
+  return origin.trim().replace(/\/+$/, '').toLowerCase();
+};
+
+/**
+ * CORS middleware (allowlist)
+ * Allowed origins get their own origin echoed back (never "*", so credentials
+ * work). Other origins get no CORS headers, and their preflights are refused.
+ *
+ * @param options - CORS settings (see config/security)
+ * @returns Middleware function
+ */
+export const cors = (options: CorsOptions) => {
+  const allowedOrigins = new Set(options.allowedOrigins.map(normalizeOrigin));
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const origin = req.get('origin');
+
+    // Responses differ by origin, so caches must key on it
+    res.vary('Origin');
+
+    if (!origin) {
+      next(); // Same-origin or non-browser request
+      return;
+    }
+
+    const allowed = allowedOrigins.has(normalizeOrigin(origin));
+    const isPreflight = req.method === 'OPTIONS' && Boolean(req.get('access-control-request-method'));
+
+    if (!allowed) {
+      if (isPreflight) {
+        res.status(403).json({
+          success: false,
+          message: 'Origin not allowed'
+        });
+        return;
+      }
+
+      next(); // The browser blocks the response without CORS headers
+      return;
+    }
+
+    res.set('Access-Control-Allow-Origin', origin);
+
+    if (options.allowCredentials) {
+      res.set('Access-Control-Allow-Credentials', 'true');
+    }
+
+    if (isPreflight) {
+      res.set('Access-Control-Allow-Methods', options.allowedMethods.join(', '));
+      res.set('Access-Control-Allow-Headers', options.allowedHeaders.join(', '));
+      res.set('Access-Control-Max-Age', String(options.maxAgeSeconds));
+      res.status(204).end();
+      return;
+    }
+
+    if (options.exposedHeaders.length > 0) {
+      res.set('Access-Control-Expose-Headers', options.exposedHeaders.join(', '));
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyCsrfTokens } from '../lib/csrf';
+import { getCsrfCookie } from '../lib/cookies';
+
+// Methods that don't change state are never checked
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Check whether a request is authenticated by cookies (what a cross-site form can send)
+ * Requests with an Authorization header authenticate with that header, which
+ * another site can't set, so API clients are not affected.
+ * @param req - Express request object
+ * @returns True if the request relies on auth cookies
+ */
+const isCookieAuthenticated = (req: Request): boolean => {
+  if (req.headers.authorization) {
+    return false;
+  }
+
+  return Boolean(req.cookies?.accessToken || req.cookies?.refreshToken);
+};
+
+/**
+ * CSRF middleware (double-submit cookie)
+ * State-changing requests that carry auth cookies must repeat the csrfToken
+ * cookie in the X-CSRF-Token header. The token is set on sign-in and can be
+ * fetched from GET /api/auth/csrf-token.
+ */
+export const csrfProtection = (req: Request, res: Response, next: NextFunction): void => {
+  if (SAFE_METHODS.includes(req.method) || !isCookieAuthenticated(req)) {
+    next();
+    return;
+  }
+
+  if (!verifyCsrfTokens(getCsrfCookie(req), req.get('x-csrf-token'))) {
+    res.status(403).json({
+      success: false,
+      message: 'Invalid or missing CSRF token',
+      error: 'CSRF_TOKEN_INVALID'
+    });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,187 @@
+import { Request, Response, NextFunction } from 'express';
+import { RateLimitState, RateLimitStore, createMemoryStore } from '../lib/rateLimitStore';
+
+// What a request is counted against
+export type RateLimitKeyStrategy = 'ip' | 'user' | 'route';
+
+export interface RateLimitOptions {
+  name: string; // Policy name, used to namespace keys
+  strategy: 'token-bucket' | 'sliding-window';
+  limit: number; // Bucket capacity or requests per window
+  windowMs: number; // Window length (sliding window) or full refill time (token bucket)
+  keyBy?: RateLimitKeyStrategy | RateLimitKeyStrategy[] | ((req: Request) => string);
+  store?: RateLimitStore;
+  message?: string;
+}
+
+// Outcome of counting one request
+interface ConsumeResult {
+  allowed: boolean;
+  remaining: number;
+  resetMs: number; // Time until the limit is fully available again
+  retryAfterMs: number; // Time until the next request would be allowed
+  state: RateLimitState;
+}
+
+/**
+ * Token bucket: `limit` tokens, refilled continuously over `windowMs`
+ * Allows short bursts up to the bucket size.
+ */
+const consumeTokenBucket = (
+  state: RateLimitState | null,
+  limit: number,
+  windowMs: number,
+  now: number
+): ConsumeResult => {
+  const refillPerMs = limit / windowMs;
+  const previousTokens = state ? state.tokens : limit;
+  const elapsed = state ? now - state.updatedAt : 0;
+  const tokens = Math.min(limit, previousTokens + elapsed * refillPerMs);
+
+  const allowed = tokens >= 1;
+  const remainingTokens = allowed ? tokens - 1 : tokens;
+
+  return {
+    allowed,
+    remaining: Math.floor(remainingTokens),
+    resetMs: Math.ceil((limit - remainingTokens) / refillPerMs),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - remainingTokens) / refillPerMs),
+    state: { tokens: remainingTokens, updatedAt: now }
+  };
+};
+
+/**
+ * Sliding window (counter approximation)
+ * Weighs the previous fixed window by how much of it still overlaps the
+ * sliding window, which avoids bursts at window boundaries.
+ */
+const consumeSlidingWindow = (
+  state: RateLimitState | null,
+  limit: number,
+  windowMs: number,
+  now: number
+): ConsumeResult => {
+  const currentWindowStart = Math.floor(now / windowMs) * windowMs;
+
+  let count = 0;
+  let previousCount = 0;
+
+  if (state) {
+    if (state.windowStart === currentWindowStart) {
+      count = state.count;
+      previousCount = state.previousCount;
+    } else if (state.windowStart === currentWindowStart - windowMs) {
+      previousCount = state.count;
+    }
+  }
+
+  const overlap = 1 - (now - currentWindowStart) / windowMs;
+  const weighted = previousCount * overlap + count;
+  const allowed = weighted + 1 <= limit;
+
+  if (allowed) {
+    count += 1;
+  }
+
+  const nextWindowMs = currentWindowStart + windowMs - now;
+
+  return {
+    allowed,
+    remaining: Math.max(0, Math.floor(limit - (previousCount * overlap + count))),
+    resetMs: nextWindowMs,
+    retryAfterMs: allowed ? 0 : nextWindowMs,
+    state: { windowStart: currentWindowStart, count, previousCount }
+  };
+};
+
+/**
+ * Build the key a request is counted against
+ * @param req - Express request object
+ * @param keyBy - Key strategy (or combination of strategies, or custom function)
+ * @returns Key string
+ */
+const buildKey = (req: Request, keyBy: RateLimitOptions['keyBy']): string => {
+  if (typeof keyBy === 'function') {
+    return keyBy(req);
+  }
+
+  const strategies = Array.isArray(keyBy) ? keyBy : [keyBy || 'ip'];
+
+  return strategies
+    .map((strategy) => {
+      switch (strategy) {
+        case 'user':
+          // Fall back to IP for unauthenticated requests
+          return req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+        case 'route':
+          return `route:${req.method}:${req.baseUrl}${req.route?.path ?? req.path}`;
+        case 'ip':
+        default:
+          return `ip:${req.ip}`;
+      }
+    })
+    .join('|');
+};
+
+/**
+ * Rate limiting middleware
+ * Sends RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset and
+ * RateLimit-Policy headers, and Retry-After when a request is rejected.
+ *
+ * @param options - Rate limit policy
+ * @returns Middleware function
+ *
+ * @example
+ * router.post('/forgot-password', rateLimit(rateLimitPolicies.forgotPassword), forgotPassword);
+ * router.use(authenticate, rateLimit({ name: 'tasks', strategy: 'token-bucket', limit: 60, windowMs: 60000, keyBy: 'user' }));
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  const store = options.store || createMemoryStore();
+  const consume = options.strategy === 'token-bucket' ? consumeTokenBucket : consumeSlidingWindow;
+  const windowSeconds = Math.ceil(options.windowMs / 1000);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const key = `${options.name}:${buildKey(req, options.keyBy)}`;
+      const now = Date.now();
+
+      // Keep state for two windows so the sliding window can see the previous one
+      const counted = await store.update(
+        key,
+        (state) => consume(state, options.limit, options.windowMs, now),
+        options.windowMs * 2
+      );
+
+      // Too many parallel requests on one key to count them all: treat as a burst
+      const result: ConsumeResult = counted || {
+        allowed: false,
+        remaining: 0,
+        resetMs: 1000,
+        retryAfterMs: 1000,
+        state: {}
+      };
+
+      res.set('RateLimit-Limit', String(options.limit));
+      res.set('RateLimit-Remaining', String(result.remaining));
+      res.set('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+      res.set('RateLimit-Policy', `${options.limit};w=${windowSeconds}`);
+
+      if (!result.allowed) {
+        const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+        res.set('Retry-After', String(retryAfter));
+        res.status(429).json({
+          success: false,
+          message: options.message || 'Too many requests. Please try again later.',
+          retryAfter
+        });
+        return;
+      }
+
+      next();
+    } catch (error: any) {
+      // Fail open: a broken limiter store must not take the API down
+      console.error('Rate limit error:', error);
+      next();
+    }
+  };
+};
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+
+export interface SecurityHeadersOptions {
+  contentSecurityPolicy: string | false;
+  hsts: { maxAgeSeconds: number; includeSubDomains: boolean; preload: boolean } | false; // HTTPS only
+  frameOptions: 'DENY' | 'SAMEORIGIN' | false;
+  referrerPolicy: string | false;
+}
+
+/**
+ * Security headers middleware
+ * Sets CSP, HSTS, frame, referrer and content-type headers on every response
+ * and removes X-Powered-By.
+ *
+ * @param options - Header settings (see config/security)
+ * @returns Middleware function
+ */
+export const securityHeaders = (options: SecurityHeadersOptions) => {
+  const hstsValue = options.hsts
+    ? [
+        `max-age=${options.hsts.maxAgeSeconds}`,
+        options.hsts.includeSubDomains ? 'includeSubDomains' : '',
+        options.hsts.preload ? 'preload' : ''
+      ].filter(Boolean).join('; ')
+    : undefined;
+
+  return (_req: Request, res: Response, next: NextFunction): void => {
+    res.removeHeader('X-Powered-By');
+
+    if (options.contentSecurityPolicy) {
+      res.set('Content-Security-Policy', options.contentSecurityPolicy);
+    }
+
+    if (hstsValue) {
+      res.set('Strict-Transport-Security', hstsValue);
+    }
+
+    if (options.frameOptions) {
+      res.set('X-Frame-Options', options.frameOptions);
+    }
+
+    if (options.referrerPolicy) {
+      res.set('Referrer-Policy', options.referrerPolicy);
+    }
+
+    res.set('X-Content-Type-Options', 'nosniff');
+    res.set('Cross-Origin-Opener-Policy', 'same-origin');
+    res.set('Cross-Origin-Resource-Policy', 'same-site');
+
+    next();
+  };
+};
@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Scopes an API key can be granted
+export const API_KEY_SCOPES = ['tasks:read', 'tasks:write', 'profile:read'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// API key interface (personal access token for scripts and CI jobs)
+export interface IApiKey extends Document {
+  userId: Types.ObjectId;
+  name: string;
+  prefix: string; // First characters of the key, shown so users can tell keys apart
+  keyHash: string; // Keyed hash (see lib/secretHash)
+  scopes: ApiKeyScope[];
+  expiresAt?: Date; // No expiry when unset
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// API key schema
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true // Index for listing a user's keys
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters']
+    },
+    prefix: {
+      type: String,
+      required: true
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false // Don't return the key hash by default in queries
+    },
+    scopes: {
+      type: [String],
+      enum: API_KEY_SCOPES,
+      required: true
+    },
+    expiresAt: {
+      type: Date
+    },
+    lastUsedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// API key model
+const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
+
+export default ApiKey;
@@ -0,0 +1,113 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Security-relevant events
+export const AUDIT_EVENT_TYPES = [
+  'login',
+  'logout',
+  'two_factor_verified',
+  'two_factor_enabled',
+  'two_factor_disabled',
+  'password_changed',
+  'password_reset_requested',
+  'password_reset',
+  'email_verified',
+  'email_change_requested',
+  'email_changed',
+  'email_change_cancelled',
+  'account_locked',
+  'account_unlocked',
+  'session_revoked',
+  'new_device_sign_in',
+  'sign_in_reported',
+  'passkey_added',
+  'passkey_removed',
+  'identity_linked',
+  'identity_unlinked',
+  'api_key_created',
+  'api_key_deleted',
+  'role_changed',
+  'impersonation_started',
+  'impersonation_stopped',
+  'impersonation_request',
+  'user_deleted'
+] as const;
+export type AuditEventType = typeof AUDIT_EVENT_TYPES[number];
+
+export type AuditOutcome = 'success' | 'failure';
+
+// Audit event interface (append-only: events are never updated or deleted)
+export interface IAuditEvent extends Document {
+  type: AuditEventType;
+  outcome: AuditOutcome;
+  actorId?: Types.ObjectId; // Who did it (unset for anonymous attempts)
+  targetUserId?: Types.ObjectId; // Whose account it affected
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>; // Event details (never secrets)
+  createdAt: Date;
+}
+
+// Audit event schema
+const auditEventSchema = new Schema<IAuditEvent>(
+  {
+    type: {
+      type: String,
+      enum: AUDIT_EVENT_TYPES,
+      required: [true, 'Event type is required']
+    },
+    outcome: {
+      type: String,
+      enum: ['success', 'failure'],
+      required: true
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    targetUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    ipAddress: {
+      type: String,
+      trim: true
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'User agent cannot exceed 500 characters']
+    },
+    metadata: {
+      type: Schema.Types.Mixed
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false } // Events never change
+  }
+);
+
+auditEventSchema.index({ createdAt: -1 });
+auditEventSchema.index({ targetUserId: 1, createdAt: -1 }); // A user's own events
+auditEventSchema.index({ actorId: 1, createdAt: -1 });
+auditEventSchema.index({ type: 1, createdAt: -1 });
+
+// Append-only: refuse updates and deletes through the model
+const rejectChange = () => {
+  throw new Error('Audit events are append-only');
+};
+
+auditEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectChange
+);
+
+auditEventSchema.pre('save', function () {
+  if (!this.isNew) {
+    rejectChange();
+  }
+});
+
+// Audit event model
+const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', auditEventSchema);
+
+export default AuditEvent;
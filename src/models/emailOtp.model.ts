@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Email one-time code interface (second factor or new-device confirmation sent by email)
+export interface IEmailOtp extends Document {
+  userId: Types.ObjectId;
+  purpose: 'login' | 'setup' | 'device';
+  challengeId?: Types.ObjectId; // Challenge the code belongs to (login and device only)
+  codeHash: string; // Keyed hash (see lib/secretHash)
+  attempts: number;
+  lastSentAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Email one-time code schema
+const emailOtpSchema = new Schema<IEmailOtp>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+    purpose: {
+      type: String,
+      enum: ['login', 'setup', 'device'],
+      required: [true, 'Purpose is required']
+    },
+    challengeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TwoFactorChallenge'
+    },
+    codeHash: {
+      type: String,
+      required: [true, 'Code hash is required'],
+      select: false // Don't return code hash by default in queries
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    lastSentAt: {
+      type: Date,
+      required: true
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// One pending code per user, purpose and challenge
+emailOtpSchema.index({ userId: 1, purpose: 1, challengeId: 1 }, { unique: true });
+// TTL index: MongoDB removes expired codes
+emailOtpSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Email one-time code model
+const EmailOtp = mongoose.model<IEmailOtp>('EmailOtp', emailOtpSchema);
+
+export default EmailOtp;
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Exchange code interface (single-use code handed to the frontend after OAuth sign-in)
+export interface IExchangeCode extends Document {
+  code: string; // Keyed hash (see lib/secretHash)
+  userId: Types.ObjectId;
+  tokenVersion: number; // User's tokenVersion when the code was issued
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Exchange code schema
+const exchangeCodeSchema = new Schema<IExchangeCode>(
+  {
+    code: {
+      type: String,
+      required: [true, 'Code is required'],
+      unique: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+    tokenVersion: {
+      type: Number,
+      required: true
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// TTL index: MongoDB removes codes once they have expired
+exchangeCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Exchange code model
+const ExchangeCode = mongoose.model<IExchangeCode>('ExchangeCode', exchangeCodeSchema);
+
+export default ExchangeCode;
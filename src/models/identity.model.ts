@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Identity interface (an external sign-in account linked to a user)
+export interface IIdentity extends Document {
+  userId: Types.ObjectId;
+  provider: string; // Provider name from config/oauth (e.g. 'google', 'github')
+  providerUserId: string; // Subject ID at the provider
+  email?: string; // Email reported by the provider when linked
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Identity schema
+const identitySchema = new Schema<IIdentity>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true // Index for listing a user's identities
+    },
+    provider: {
+      type: String,
+      required: [true, 'Provider is required'],
+      trim: true
+    },
+    providerUserId: {
+      type: String,
+      required: [true, 'Provider user ID is required']
+    },
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true
+    },
+    lastUsedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// An external account can be linked to only one user
+identitySchema.index({ provider: 1, providerUserId: 1 }, { unique: true });
+
+// Identity model
+const Identity = mongoose.model<IIdentity>('Identity', identitySchema);
+
+export default Identity;
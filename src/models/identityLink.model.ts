@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Pending identity link interface (an OAuth sign-in matched an existing
+// account by email and waits for the account owner's consent)
+export interface IIdentityLink extends Document {
+  userId: Types.ObjectId;
+  provider: string;
+  providerUserId: string;
+  email: string; // Email reported by the provider
+  emailVerified: boolean; // Whether the provider verified that email
+  linkToken: string; // Keyed hash; returned to the browser that signed in
+  emailToken: string; // Keyed hash; emailed to the account owner
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Pending identity link schema
+const identityLinkSchema = new Schema<IIdentityLink>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+    provider: {
+      type: String,
+      required: [true, 'Provider is required']
+    },
+    providerUserId: {
+      type: String,
+      required: [true, 'Provider user ID is required']
+    },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false
+    },
+    linkToken: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false // Don't return token by default in queries
+    },
+    emailToken: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false // Don't return token by default in queries
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// TTL index: MongoDB removes links that were never confirmed
+identityLinkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Pending identity link model
+const IdentityLink = mongoose.model<IIdentityLink>('IdentityLink', identityLinkSchema);
+
+export default IdentityLink;
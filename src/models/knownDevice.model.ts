@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Known device interface (a browser or client a user has signed in from before)
+export interface IKnownDevice extends Document {
+  userId: Types.ObjectId;
+  deviceId: string; // Keyed hash of the device cookie (see lib/secretHash)
+  userAgent?: string;
+  ipAddress?: string;
+  lastSeenAt: Date;
+  reportToken?: string; // Keyed hash of the "this wasn't me" token from the new-device email
+  reportTokenExpires?: Date;
+  expiresAt: Date; // Forgotten after a long time without sign-ins
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Known device schema
+const knownDeviceSchema = new Schema<IKnownDevice>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+    deviceId: {
+      type: String,
+      required: [true, 'Device ID is required']
+    },
+    userAgent: {
+      type: String,
+      maxlength: 500
+    },
+    ipAddress: {
+      type: String
+    },
+    lastSeenAt: {
+      type: Date,
+      required: true
+    },
+    reportToken: {
+      type: String,
+      select: false, // Don't return token by default in queries
+      index: true,
+      sparse: true
+    },
+    reportTokenExpires: {
+      type: Date
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// One entry per user and device
+knownDeviceSchema.index({ userId: 1, deviceId: 1 }, { unique: true });
+
+// TTL index: MongoDB removes devices that haven't been used for a long time
+knownDeviceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Known device model
+const KnownDevice = mongoose.model<IKnownDevice>('KnownDevice', knownDeviceSchema);
+
+export default KnownDevice;
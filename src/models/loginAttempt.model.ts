@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Login attempt interface (failed-attempt counter per account or per IP)
+export interface ILoginAttempt extends Document {
+  key: string; // e.g. "account:jane@example.com" or "ip:203.0.113.7"
+  failures: number;
+  lastFailureAt?: Date;
+  nextAttemptAt?: Date; // Progressive delay: no attempts accepted before this
+  lockedUntil?: Date;
+  unlockToken?: string; // Keyed hash of the emailed unlock token
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Login attempt schema
+const loginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Key is required'],
+      unique: true
+    },
+    failures: {
+      type: Number,
+      default: 0
+    },
+    lastFailureAt: {
+      type: Date
+    },
+    nextAttemptAt: {
+      type: Date
+    },
+    lockedUntil: {
+      type: Date
+    },
+    unlockToken: {
+      type: String,
+      select: false, // Don't return token by default in queries
+      index: true,
+      sparse: true
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// TTL index: counters are forgotten after a quiet period
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Login attempt model
+const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', loginAttemptSchema);
+
+export default LoginAttempt;
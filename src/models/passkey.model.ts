@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Passkey interface (one WebAuthn credential registered by a user)
+export interface IPasskey extends Document {
+  userId: Types.ObjectId;
+  credentialId: string; // Base64URL credential ID
+  publicKey: Buffer; // COSE-encoded public key
+  counter: number; // Signature counter (detects cloned authenticators)
+  transports?: string[];
+  name: string;
+  deviceType?: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Passkey schema
+const passkeySchema = new Schema<IPasskey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true // Index for listing a user's passkeys
+    },
+    credentialId: {
+      type: String,
+      required: [true, 'Credential ID is required'],
+      unique: true
+    },
+    publicKey: {
+      type: Buffer,
+      required: [true, 'Public key is required']
+    },
+    counter: {
+      type: Number,
+      default: 0
+    },
+    transports: {
+      type: [String]
+    },
+    name: {
+      type: String,
+      required: [true, 'Passkey name is required'],
+      trim: true,
+      maxlength: [100, 'Passkey name cannot exceed 100 characters']
+    },
+    deviceType: {
+      type: String,
+      enum: ['singleDevice', 'multiDevice']
+    },
+    backedUp: {
+      type: Boolean,
+      default: false
+    },
+    lastUsedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Passkey model
+const Passkey = mongoose.model<IPasskey>('Passkey', passkeySchema);
+
+export default Passkey;
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Rate limit interface (limiter state for one key)
+export interface IRateLimit extends Document {
+  key: string;
+  state: Record<string, number>;
+  version: number; // Incremented on every update (compare-and-swap)
+  expiresAt: Date;
+}
+
+// Rate limit schema
+const rateLimitSchema = new Schema<IRateLimit>({
+  key: {
+    type: String,
+    required: [true, 'Key is required'],
+    unique: true
+  },
+  state: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  version: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiration date is required']
+  }
+});
+
+// TTL index: MongoDB removes idle limiter state
+rateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Rate limit model
+const RateLimit = mongoose.model<IRateLimit>('RateLimit', rateLimitSchema);
+
+export default RateLimit;
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { SessionRevokeReason } from './session.model';
+
+// Revoked token interface (access token that must be rejected before it expires)
+export interface IRevokedToken extends Document {
+  jti: string; // Token ID claim
+  userId: Types.ObjectId;
+  reason: SessionRevokeReason;
+  expiresAt: Date; // When the token would have expired anyway
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Revoked token schema
+const revokedTokenSchema = new Schema<IRevokedToken>(
+  {
+    jti: {
+      type: String,
+      required: [true, 'Token ID is required'],
+      unique: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+    reason: {
+      type: String,
+      enum: ['logout', 'revoked', 'password_change', 'refresh_token_reuse'],
+      required: true
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// TTL index: an entry is only needed until the token it blocks has expired
+revokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Revoked token model
+const RevokedToken = mongoose.model<IRevokedToken>('RevokedToken', revokedTokenSchema);
+
+export default RevokedToken;
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export type SessionRevokeReason = 'logout' | 'revoked' | 'password_change' | 'refresh_token_reuse';
+
+// Session interface (one record per signed-in device)
+export interface ISession extends Document {
+  userId: Types.ObjectId;
+  refreshToken?: string; // Keyed hash of the current refresh token
+  accessTokenId?: string; // jti of the latest access token (revoked with the session)
+  accessTokenExpiresAt?: Date;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Session schema
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true // Index for listing a user's sessions
+    },
+    refreshToken: {
+      type: String,
+      select: false // Don't return refresh token by default in queries
+    },
+    accessTokenId: {
+      type: String
+    },
+    accessTokenExpiresAt: {
+      type: Date
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'User agent cannot exceed 500 characters']
+    },
+    ipAddress: {
+      type: String,
+      trim: true
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    },
+    revokedAt: {
+      type: Date
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'revoked', 'password_change', 'refresh_token_reuse']
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// TTL index: MongoDB removes sessions once their refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+
+// Session model
+const Session = mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// What a challenge can complete
+export type ChallengePurpose = 'two_factor' | 'device';
+
+// 2FA challenge interface (issued after a successful password step)
+export interface ITwoFactorChallenge extends Document {
+  userId: Types.ObjectId;
+  purpose: ChallengePurpose; // Second factor, or new-device confirmation
+  tokenVersion: number; // User's tokenVersion at the password step
+  attempts: number;
+  expiresAt: Date;
+  consumedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 2FA challenge schema
+const twoFactorChallengeSchema = new Schema<ITwoFactorChallenge>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true
+    },
+    purpose: {
+      type: String,
+      enum: ['two_factor', 'device'],
+      required: [true, 'Purpose is required']
+    },
+    tokenVersion: {
+      type: Number,
+      required: true
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    },
+    consumedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// TTL index: MongoDB removes challenges once they have expired
+twoFactorChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// 2FA challenge model
+const TwoFactorChallenge = mongoose.model<ITwoFactorChallenge>('TwoFactorChallenge', twoFactorChallengeSchema);
+
+export default TwoFactorChallenge;
@@ -1,23 +1,34 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// Second factors stored on the user document
+export type TwoFactorMethod = 'totp' | 'email';
+
 // User interface
 export interface IUser extends Document {
   name: string;
   email: string;
-  password?: string; // Optional for OAuth users
-  googleId?: string; // Google OAuth ID
+  password?: string; // Optional for OAuth users (linked accounts live in the identities collection)
+  passwordHistory?: string[]; // Hashes of recent passwords, most recent first (see lib/passwordPolicy)
   role: 'user' | 'admin';
   isEmailVerified: boolean;
-  emailVerificationToken?: string;
+  emailVerificationToken?: string; // Keyed hash (see lib/secretHash)
   emailVerificationExpires?: Date;
-  isTwoFactorEnabled: boolean;
-  twoFactorSecret?: string;
-  twoFactorBackupCodes?: string[];
+  emailVerificationSentAt?: Date; // For the resend cooldown
+  pendingEmail?: string; // Requested new email, active once confirmed
+  pendingEmailToken?: string; // Keyed hash (see lib/secretHash)
+  pendingEmailCancelToken?: string; // Keyed hash (see lib/secretHash)
+  pendingEmailExpires?: Date;
+  pendingEmailSentAt?: Date; // For the request cooldown
+  isTwoFactorEnabled: boolean; // True when at least one second factor is enrolled
+  twoFactorMethods: TwoFactorMethod[]; // Enrolled second factors (passkeys live in their own collection)
+  preferredTwoFactorMethod?: TwoFactorMethod | 'webauthn';
+  twoFactorSecret?: string; // Encrypted (see lib/fieldEncryption)
+  twoFactorBackupCodes?: string[]; // Keyed hashes (see lib/secretHash)
   tokenVersion: number;
-  refreshToken?: string;
-  refreshTokenExpires?: Date;
-  resetPasswordToken?: string;
+  resetPasswordToken?: string; // Keyed hash (see lib/secretHash)
   resetPasswordExpires?: Date;
+  magicLinkToken?: string; // Keyed hash (see lib/secretHash)
+  magicLinkExpires?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -42,18 +53,14 @@ const userSchema = new Schema<IUser>(
     },
     password: {
       type: String,
-      required: function (this: IUser) {
-        // Password required only if not using OAuth
-        return !this.googleId;
-      },
+      // Not required: users who signed up with an OAuth provider have none
       minlength: [6, 'Password must be at least 6 characters'],
       select: false // Don't return password by default in queries
     },
-    googleId: {
-      type: String,
-      unique: true,
-      sparse: true, // Allows multiple null values
-      select: false // Don't return googleId by default in queries
+    passwordHistory: {
+      type: [String],
+      default: [],
+      select: false
     },
     role: {
       type: String,
@@ -62,10 +69,7 @@ const userSchema = new Schema<IUser>(
     },
     isEmailVerified: {
       type: Boolean,
-      default: function (this: IUser) {
-        // Auto-verify email for OAuth users
-        return !!this.googleId;
-      }
+      default: false // OAuth sign-up sets this from the provider
     },
     emailVerificationToken: {
       type: String,
@@ -75,10 +79,44 @@ const userSchema = new Schema<IUser>(
       type: Date,
       select: false // Don't return expiration by default in queries
     },
+    emailVerificationSentAt: {
+      type: Date,
+      select: false
+    },
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email']
+    },
+    pendingEmailToken: {
+      type: String,
+      select: false // Don't return token by default in queries
+    },
+    pendingEmailCancelToken: {
+      type: String,
+      select: false // Don't return token by default in queries
+    },
+    pendingEmailExpires: {
+      type: Date
+    },
+    pendingEmailSentAt: {
+      type: Date,
+      select: false
+    },
     isTwoFactorEnabled: {
       type: Boolean,
       default: false
     },
+    twoFactorMethods: {
+      type: [String],
+      enum: ['totp', 'email'],
+      default: []
+    },
+    preferredTwoFactorMethod: {
+      type: String,
+      enum: ['totp', 'email', 'webauthn']
+    },
     twoFactorSecret: {
       type: String,
       select: false // Don't return secret by default in queries
@@ -91,19 +129,19 @@ const userSchema = new Schema<IUser>(
       type: Number,
       default: 0
     },
-    refreshToken: {
+    resetPasswordToken: {
       type: String,
-      select: false // Don't return refresh token by default in queries
+      select: false // Don't return token by default in queries
     },
-    refreshTokenExpires: {
+    resetPasswordExpires: {
       type: Date,
       select: false // Don't return expiration by default in queries
     },
-    resetPasswordToken: {
+    magicLinkToken: {
       type: String,
       select: false // Don't return token by default in queries
     },
-    resetPasswordExpires: {
+    magicLinkExpires: {
       type: Date,
       select: false // Don't return expiration by default in queries
     }
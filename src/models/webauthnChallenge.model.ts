@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// WebAuthn challenge interface (one pending registration or authentication ceremony)
+export interface IWebAuthnChallenge extends Document {
+  challenge: string;
+  type: 'registration' | 'authentication';
+  userId?: Types.ObjectId; // Set for registration and for second-factor authentication
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// WebAuthn challenge schema
+const webauthnChallengeSchema = new Schema<IWebAuthnChallenge>(
+  {
+    challenge: {
+      type: String,
+      required: [true, 'Challenge is required'],
+      unique: true
+    },
+    type: {
+      type: String,
+      enum: ['registration', 'authentication'],
+      required: [true, 'Challenge type is required']
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required']
+    }
+  },
+  {
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// TTL index: MongoDB removes abandoned ceremonies
+webauthnChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// WebAuthn challenge model
+const WebAuthnChallenge = mongoose.model<IWebAuthnChallenge>('WebAuthnChallenge', webauthnChallengeSchema);
+
+export default WebAuthnChallenge;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { getAuditEvents } from '../controllers/audit.controller';
+import { impersonateUser, endImpersonation } from '../controllers/impersonation.controller';
+import { authenticate } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { rateLimitPolicies } from '../config/rateLimit';
+import { authorize, requireSession } from '../middleware/authorize';
+
+const router = Router();
+
+// All routes require an admin signed in with a session (never an API key or
+// an impersonation token)
+router.use(authenticate);
+router.use(rateLimit(rateLimitPolicies.api)); // Per-user rate limit
+router.use(requireSession);
+router.use(authorize(['admin']));
+
+// Query the security audit log
+router.get('/audit', getAuditEvents);
+
+// Impersonation (support: see what a user sees in /api/tasks)
+router.post('/users/:id/impersonate', impersonateUser); // Issue a short-lived, marked token for the user
+router.post('/impersonation/stop', endImpersonation); // Revoke an impersonation token early
+
+export default router;
@@ -8,40 +8,87 @@ import {
   resetPassword,
   verifyEmail,
   resendVerification,
+  confirmEmailChange,
+  cancelEmailChange,
   changePassword,
-  googleAuth,
-  googleCallback,
   enableTwoFactor,
   verifyTwoFactorSetup,
   verifyTwoFactorLogin,
-  disableTwoFactor
+  disableTwoFactor,
+  enableEmailTwoFactor,
+  verifyEmailTwoFactorSetup,
+  sendTwoFactorEmailCode,
+  setPreferredTwoFactorMethod,
+  unlockAccount,
+  confirmDevice,
+  reportSignIn,
+  requestMagicLink,
+  verifyMagicLink,
+  getCsrfToken
 } from '../controllers/auth.controller';
+import { getSessions, deleteSession, deleteOtherSessions } from '../controllers/session.controller';
+import { exchangeCode, getIdentities, deleteIdentity } from '../controllers/oauth.controller';
+import { createKey, getKeys, deleteKey } from '../controllers/apiKey.controller';
 import { authenticate } from '../middleware/auth';
+import { requireSession } from '../middleware/authorize';
+import { rateLimit } from '../middleware/rateLimit';
+import { rateLimitPolicies } from '../config/rateLimit';
 
 const router = Router();
 
 // Public routes (validation happens inside controllers)
-router.post('/register', register);
-router.post('/login', login);
+router.post('/register', rateLimit(rateLimitPolicies.register), register);
+router.post('/login', rateLimit(rateLimitPolicies.login), login);
 router.post('/refresh-token', refreshToken);
 router.post('/logout', logout);
-router.post('/forgot-password', forgotPassword);
+router.get('/csrf-token', getCsrfToken); // CSRF token for cookie-based clients (also set on sign-in)
+router.post('/forgot-password', rateLimit(rateLimitPolicies.forgotPassword), forgotPassword);
 router.post('/reset-password', resetPassword);
 router.post('/verify-email', verifyEmail);
-router.post('/resend-verification', resendVerification);
+router.post('/resend-verification', rateLimit(rateLimitPolicies.emailSending), resendVerification);
+router.post('/confirm-email-change', confirmEmailChange); // Link sent to the new address
+router.post('/cancel-email-change', cancelEmailChange); // Link sent to the current address
+router.post('/unlock-account', unlockAccount); // Unlock link from the account locked email
+router.post('/confirm-device', rateLimit(rateLimitPolicies.login), confirmDevice); // Finish a login from an unfamiliar device
+router.post('/report-sign-in', reportSignIn); // "This wasn't me" link from the new device email
+router.post('/magic-link', rateLimit(rateLimitPolicies.emailSending), requestMagicLink); // Email a sign-in link
+router.post('/magic-link/verify', rateLimit(rateLimitPolicies.login), verifyMagicLink); // Sign in with the link
+router.post('/exchange', rateLimit(rateLimitPolicies.login), exchangeCode); // Swap the OAuth redirect code for tokens
 
-// Google OAuth routes
-router.get('/google', googleAuth); // Initiate Google OAuth
-router.get('/google/callback', googleCallback); // Google OAuth callback
+// Google OAuth routes (kept for existing links and the redirect URI registered
+// with Google; the flow itself lives under /api/auth/oauth/:provider)
+router.get('/google', (_req, res) => res.redirect('/api/auth/oauth/google'));
+router.get('/google/callback', (req, res) => {
+  const query = req.originalUrl.indexOf('?');
+  res.redirect(`/api/auth/oauth/google/callback${query === -1 ? '' : req.originalUrl.substring(query)}`);
+});
 
 // 2FA routes
-router.post('/verify-2fa-login', verifyTwoFactorLogin); // Verify 2FA during login (public)
+router.post('/verify-2fa-login', rateLimit(rateLimitPolicies.login), verifyTwoFactorLogin); // Verify 2FA during login (public)
+router.post('/send-2fa-email-code', rateLimit(rateLimitPolicies.emailSending), sendTwoFactorEmailCode); // Email a login code (public)
 
 // Protected routes (require authentication)
-router.post('/change-password', authenticate, changePassword);
-router.post('/enable-2fa', authenticate, enableTwoFactor); // Enable 2FA
-router.post('/verify-2fa-setup', authenticate, verifyTwoFactorSetup); // Verify 2FA setup
-router.post('/disable-2fa', authenticate, disableTwoFactor); // Disable 2FA
+router.post('/change-password', authenticate, requireSession, changePassword);
+router.post('/enable-2fa', authenticate, requireSession, enableTwoFactor); // Enable 2FA
+router.post('/verify-2fa-setup', authenticate, requireSession, verifyTwoFactorSetup); // Verify 2FA setup
+router.post('/disable-2fa', authenticate, requireSession, disableTwoFactor); // Disable 2FA (or remove one method)
+router.post('/enable-email-2fa', authenticate, requireSession, rateLimit(rateLimitPolicies.emailSending), enableEmailTwoFactor); // Enable email 2FA
+router.post('/verify-email-2fa-setup', authenticate, requireSession, verifyEmailTwoFactorSetup); // Verify email 2FA setup
+router.put('/2fa-preference', authenticate, requireSession, setPreferredTwoFactorMethod); // Set preferred 2FA method
+
+// Session (device) management routes
+router.get('/sessions', authenticate, requireSession, getSessions); // List active sessions
+router.delete('/sessions', authenticate, requireSession, deleteOtherSessions); // Log out everywhere else
+router.delete('/sessions/:id', authenticate, requireSession, deleteSession); // Revoke a single session
+
+// Linked sign-in providers
+router.get('/identities', authenticate, requireSession, getIdentities); // List linked providers
+router.delete('/identities/:id', authenticate, requireSession, deleteIdentity); // Unlink a provider
+
+// API keys (personal access tokens for scripts and CI)
+router.get('/api-keys', authenticate, requireSession, getKeys); // List API keys
+router.post('/api-keys', authenticate, requireSession, createKey); // Create an API key (shown once)
+router.delete('/api-keys/:id', authenticate, requireSession, deleteKey); // Delete an API key
 
 export default router;
 
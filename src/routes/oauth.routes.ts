@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+  getOAuthProviders,
+  startOAuth,
+  oauthCallback,
+  confirmLinkWithPassword,
+  confirmLinkWithEmail
+} from '../controllers/oauth.controller';
+import { rateLimit } from '../middleware/rateLimit';
+import { rateLimitPolicies } from '../config/rateLimit';
+
+const router = Router();
+
+// External sign-in providers (public)
+router.get('/', getOAuthProviders); // List enabled providers
+router.get('/:provider', startOAuth); // Redirect to the provider's consent screen
+router.get('/:provider/callback', rateLimit(rateLimitPolicies.login), oauthCallback); // Provider redirects back here
+
+// Account linking consent (public: the owner confirms an email match)
+router.post('/link/confirm', rateLimit(rateLimitPolicies.login), confirmLinkWithPassword); // Confirm with password
+router.post('/link/confirm-email', rateLimit(rateLimitPolicies.login), confirmLinkWithEmail); // Confirm from the email
+
+export default router;
@@ -8,19 +8,23 @@ import {
   getTaskStats
 } from '../controllers/task.controller';
 import { authenticate } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { rateLimitPolicies } from '../config/rateLimit';
+import { requireScope } from '../middleware/authorize';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
+router.use(rateLimit(rateLimitPolicies.api)); // Per-user rate limit
 
-// Task routes
-router.post('/', createTask); // Create a new task
-router.get('/', getTasks); // Get all tasks (with filtering and pagination)
-router.get('/stats', getTaskStats); // Get task statistics
-router.get('/:id', getTaskById); // Get a single task by ID
-router.put('/:id', updateTask); // Update a task
-router.delete('/:id', deleteTask); // Delete a task
+// Task routes (API keys need the tasks:read / tasks:write scope)
+router.post('/', requireScope('tasks:write'), createTask); // Create a new task
+router.get('/', requireScope('tasks:read'), getTasks); // Get all tasks (with filtering and pagination)
+router.get('/stats', requireScope('tasks:read'), getTaskStats); // Get task statistics
+router.get('/:id', requireScope('tasks:read'), getTaskById); // Get a single task by ID
+router.put('/:id', requireScope('tasks:write'), updateTask); // Update a task
+router.delete('/:id', requireScope('tasks:write'), deleteTask); // Delete a task
 
 export default router;
 
@@ -4,28 +4,41 @@ import {
   getUserById,
   getAllUsers,
   updateUser,
-  deleteUser
+  deleteUser,
+  unlockUser,
+  revokeUserSessions,
+  updateUserRole
 } from '../controllers/user.controller';
+import { getSecurityEvents } from '../controllers/audit.controller';
 import { authenticate } from '../middleware/auth';
-import { authorize } from '../middleware/authorize';
+import { rateLimit } from '../middleware/rateLimit';
+import { rateLimitPolicies } from '../config/rateLimit';
+import { authorize, requireScope, requireSession } from '../middleware/authorize';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
+router.use(rateLimit(rateLimitPolicies.api)); // Per-user rate limit
 
 // Get current user's profile (any authenticated user)
-router.get('/profile', getProfile);
+router.get('/profile', requireScope('profile:read'), getProfile);
+
+// Get security events on the current user's account (logins, password changes, ...)
+router.get('/profile/security-events', requireSession, getSecurityEvents);
 
 // Get user by ID (users can access own profile, admins can access any)
-router.get('/:id', getUserById);
+router.get('/:id', requireSession, getUserById);
 
 // Update user (users can update own profile, admins can update any)
-router.put('/:id', updateUser);
-
-// Admin only routes
-router.get('/', authorize(['admin']), getAllUsers); // Get all users
-router.delete('/:id', authorize(['admin']), deleteUser); // Delete user
+router.put('/:id', requireSession, updateUser);
+
+// Admin only routes (never available to API keys)
+router.get('/', requireSession, authorize(['admin']), getAllUsers); // Get all users
+router.delete('/:id', requireSession, authorize(['admin']), deleteUser); // Delete user
+router.post('/:id/unlock', requireSession, authorize(['admin']), unlockUser); // Clear login lockout
+router.post('/:id/revoke-sessions', requireSession, authorize(['admin']), revokeUserSessions); // Sign out everywhere
+router.put('/:id/role', requireSession, authorize(['admin']), updateUserRole); // Change role
 
 export default router;
 
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+  getRegistrationOptions,
+  verifyPasskeyRegistration,
+  getAuthenticationOptions,
+  verifyPasskeyAuthentication,
+  getPasskeys,
+  renamePasskey,
+  deletePasskey
+} from '../controllers/webauthn.controller';
+import { authenticate } from '../middleware/auth';
+import { requireSession } from '../middleware/authorize';
+import { rateLimit } from '../middleware/rateLimit';
+import { rateLimitPolicies } from '../config/rateLimit';
+
+const router = Router();
+
+// Authentication ceremony (public: passwordless login or second factor)
+router.post('/login/options', rateLimit(rateLimitPolicies.login), getAuthenticationOptions);
+router.post('/login/verify', rateLimit(rateLimitPolicies.login), verifyPasskeyAuthentication);
+
+// Registration ceremony (protected)
+router.post('/register/options', authenticate, requireSession, getRegistrationOptions);
+router.post('/register/verify', authenticate, requireSession, verifyPasskeyRegistration);
+
+// Passkey management (protected)
+router.get('/credentials', authenticate, requireSession, getPasskeys); // List passkeys
+router.patch('/credentials/:id', authenticate, requireSession, renamePasskey); // Rename a passkey
+router.delete('/credentials/:id', authenticate, requireSession, deletePasskey); // Remove a passkey
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getJwks } from '../controllers/wellKnown.controller';
+
+const router = Router();
+
+// Public discovery documents
+router.get('/jwks.json', getJwks); // Access token verification keys
+
+export default router;
@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { createBloomFilter, addToBloomFilter, serializeBloomFilter } from '../lib/bloomFilter';
+
+/**
+ * Build the breached password bloom filter from a word list
+ * Usage: npm run passwords:build-bloom -- <passwords.txt> [output] [falsePositiveRate]
+ * The input has one password per line (e.g. a common/breached password list).
+ * Output defaults to data/breached-passwords.bloom, which PASSWORD_BREACHED_LIST
+ * points at by default. The bundled filter is built from data/common-passwords.txt
+ * (npm run passwords:build-default-bloom).
+ */
+
+const inputPath = process.argv[2];
+const outputPath = process.argv[3] || path.join(process.cwd(), 'data', 'breached-passwords.bloom');
+const falsePositiveRate = parseFloat(process.argv[4] || '0.001');
+
+/**
+ * Read the non-empty lines of the input file
+ * @param file - Input path
+ * @returns Passwords
+ */
+const readPasswords = async (file: string): Promise<string[]> => {
+  const passwords: string[] = [];
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (line.length > 0) {
+      passwords.push(line);
+    }
+  }
+
+  return passwords;
+};
+
+const build = async () => {
+  if (!inputPath) {
+    console.error('Usage: npm run passwords:build-bloom -- <passwords.txt> [output] [falsePositiveRate]');
+    process.exit(1);
+  }
+
+  const passwords = await readPasswords(inputPath);
+  const filter = createBloomFilter(passwords.length, falsePositiveRate);
+
+  passwords.forEach((password) => addToBloomFilter(filter, password));
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, serializeBloomFilter(filter));
+
+  console.log(`✅ Wrote ${outputPath}: ${passwords.length} passwords, ${filter.bitCount} bits, ${filter.hashCount} hashes`);
+};
+
+build().catch((error) => {
+  console.error('❌ Failed to build bloom filter:', error);
+  process.exit(1);
+});
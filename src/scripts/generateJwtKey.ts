@@ -0,0 +1,18 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a JWT signing key for JWT_ACCESS_KEYS / JWT_REFRESH_KEYS
+ * Usage: npm run keys:generate-jwt -- [keyId] [rsa|ec]
+ * Prints a <keyId>:<base64 PEM> entry to append to the key list.
+ */
+
+const keyId = process.argv[2] || new Date().toISOString().substring(0, 7); // e.g. 2025-06
+const type = process.argv[3] || 'rsa';
+
+const { privateKey } = type === 'ec'
+  ? crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+  : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+console.log(`${keyId}:${Buffer.from(pem).toString('base64')}`);
@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import { connectDB } from '../config/db';
+import User from '../models/user.model';
+import Session from '../models/session.model';
+import LoginAttempt from '../models/loginAttempt.model';
+import { hashSecret, isHashedSecret } from '../lib/secretHash';
+import { normalizeBackupCode } from '../lib/twoFactor';
+
+/**
+ * One-off migration: hash one-time secrets that were stored in plaintext
+ * Safe to run more than once - values that are already hashed are skipped.
+ * Run after deploying the hashing code: npm run migrate:hash-secrets
+ */
+
+const hashIfPlain = (value?: string): string | undefined => {
+  if (!value || isHashedSecret(value)) {
+    return undefined;
+  }
+  return hashSecret(value);
+};
+
+const migrateUsers = async (): Promise<number> => {
+  let migrated = 0;
+
+  const cursor = User.find({
+    $or: [
+      { emailVerificationToken: { $exists: true } },
+      { resetPasswordToken: { $exists: true } },
+      { twoFactorBackupCodes: { $exists: true, $ne: [] } }
+    ]
+  })
+    .select('+emailVerificationToken +resetPasswordToken +twoFactorBackupCodes')
+    .cursor();
+
+  for await (const user of cursor) {
+    const update: Record<string, unknown> = {};
+
+    const emailVerificationToken = hashIfPlain(user.emailVerificationToken);
+    if (emailVerificationToken) update.emailVerificationToken = emailVerificationToken;
+
+    const resetPasswordToken = hashIfPlain(user.resetPasswordToken);
+    if (resetPasswordToken) update.resetPasswordToken = resetPasswordToken;
+
+    const backupCodes = user.twoFactorBackupCodes || [];
+    if (backupCodes.some((code) => !isHashedSecret(code))) {
+      update.twoFactorBackupCodes = backupCodes.map((code) =>
+        isHashedSecret(code) ? code : hashSecret(normalizeBackupCode(code))
+      );
+    }
+
+    if (Object.keys(update).length > 0) {
+      await User.updateOne({ _id: user._id }, { $set: update });
+      migrated++;
+    }
+  }
+
+  // Plaintext refresh tokens from before device sessions existed are no longer used
+  const legacy = await User.collection.updateMany(
+    { refreshToken: { $exists: true } },
+    { $unset: { refreshToken: '', refreshTokenExpires: '' } }
+  );
+
+  return migrated + legacy.modifiedCount;
+};
+
+const migrateSessions = async (): Promise<number> => {
+  let migrated = 0;
+
+  const cursor = Session.find({ refreshToken: { $exists: true } }).select('+refreshToken').cursor();
+
+  for await (const session of cursor) {
+    const refreshToken = hashIfPlain(session.refreshToken);
+    if (refreshToken) {
+      await Session.updateOne({ _id: session._id }, { $set: { refreshToken } });
+      migrated++;
+    }
+  }
+
+  return migrated;
+};
+
+const migrateLoginAttempts = async (): Promise<number> => {
+  let migrated = 0;
+
+  const cursor = LoginAttempt.find({ unlockToken: { $exists: true } }).select('+unlockToken').cursor();
+
+  for await (const attempt of cursor) {
+    const unlockToken = hashIfPlain(attempt.unlockToken);
+    if (unlockToken) {
+      await LoginAttempt.updateOne({ _id: attempt._id }, { $set: { unlockToken } });
+      migrated++;
+    }
+  }
+
+  return migrated;
+};
+
+const run = async () => {
+  await connectDB();
+
+  const users = await migrateUsers();
+  console.log(`✅ Hashed secrets for ${users} users`);
+
+  const sessions = await migrateSessions();
+  console.log(`✅ Hashed refresh tokens for ${sessions} sessions`);
+
+  const attempts = await migrateLoginAttempts();
+  console.log(`✅ Hashed unlock tokens for ${attempts} login lockouts`);
+
+  await mongoose.disconnect();
+};
+
+run().catch(async (error) => {
+  console.error('❌ Secret hashing migration failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+import { connectDB } from '../config/db';
+import User from '../models/user.model';
+import Identity from '../models/identity.model';
+
+/**
+ * One-off migration: move User.googleId into the identities collection
+ * Safe to run more than once - identities that already exist are kept.
+ * Run after deploying the OAuth provider framework: npm run migrate:identities
+ */
+
+const run = async () => {
+  await connectDB();
+
+  let migrated = 0;
+
+  // googleId is no longer part of the schema, so read the raw documents
+  const cursor = User.collection.find(
+    { googleId: { $exists: true, $ne: null } },
+    { projection: { googleId: 1, email: 1 } }
+  );
+
+  for await (const user of cursor) {
+    await Identity.updateOne(
+      { provider: 'google', providerUserId: String(user.googleId) },
+      { $setOnInsert: { userId: user._id, email: user.email } },
+      { upsert: true }
+    );
+
+    await User.collection.updateOne({ _id: user._id }, { $unset: { googleId: '' } });
+    migrated++;
+  }
+
+  // The unique index on googleId is no longer needed
+  const indexes = await User.collection.indexes();
+  if (indexes.some((index) => index.name === 'googleId_1')) {
+    await User.collection.dropIndex('googleId_1');
+  }
+
+  console.log(`✅ Moved ${migrated} Google accounts to identities`);
+
+  await mongoose.disconnect();
+};
+
+run().catch(async (error) => {
+  console.error('❌ Identity migration failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
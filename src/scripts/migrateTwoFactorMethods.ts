@@ -0,0 +1,34 @@
+import mongoose from 'mongoose';
+import { connectDB } from '../config/db';
+import User from '../models/user.model';
+
+/**
+ * One-off migration: list TOTP in twoFactorMethods for accounts that turned on
+ * 2FA before factors were tracked individually (isTwoFactorEnabled with a
+ * secret but no methods). Passkey-only accounts have no secret and are skipped.
+ * Safe to run more than once.
+ * Run after deploying passkeys as a second factor: npm run migrate:two-factor-methods
+ */
+
+const run = async () => {
+  await connectDB();
+
+  const result = await User.collection.updateMany(
+    {
+      isTwoFactorEnabled: true,
+      twoFactorSecret: { $exists: true, $ne: null },
+      $or: [{ twoFactorMethods: { $exists: false } }, { twoFactorMethods: { $size: 0 } }]
+    },
+    { $set: { twoFactorMethods: ['totp'] } }
+  );
+
+  console.log(`✅ Listed TOTP for ${result.modifiedCount} accounts`);
+
+  await mongoose.disconnect();
+};
+
+run().catch(async (error) => {
+  console.error('❌ Two-factor method migration failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
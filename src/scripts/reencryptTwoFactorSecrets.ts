@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+import { connectDB } from '../config/db';
+import User from '../models/user.model';
+import { encryptField, decryptField, needsReEncryption } from '../lib/fieldEncryption';
+import { TWO_FACTOR_SECRET_CONTEXT } from '../lib/twoFactor';
+
+/**
+ * Re-encryption job for 2FA secrets
+ * Encrypts legacy plaintext secrets and moves secrets encrypted with an old
+ * key (or in the old format, not bound to the user) to the active key. After it has run, the old key can be removed from
+ * FIELD_ENCRYPTION_KEYS. Safe to run more than once.
+ * Run: npm run migrate:reencrypt-2fa
+ */
+
+const run = async () => {
+  await connectDB();
+
+  let reEncrypted = 0;
+  let failed = 0;
+
+  const cursor = User.find({ twoFactorSecret: { $exists: true } }).select('+twoFactorSecret').cursor();
+
+  for await (const user of cursor) {
+    const stored = user.twoFactorSecret;
+
+    if (!stored || !needsReEncryption(stored)) {
+      continue;
+    }
+
+    try {
+      const secret = decryptField(stored, TWO_FACTOR_SECRET_CONTEXT, user._id.toString());
+      const twoFactorSecret = encryptField(secret, TWO_FACTOR_SECRET_CONTEXT, user._id.toString());
+
+      // Only replace the value we read, in case the user changed it meanwhile
+      await User.updateOne({ _id: user._id, twoFactorSecret: stored }, { $set: { twoFactorSecret } });
+      reEncrypted++;
+    } catch (error: any) {
+      console.error(`❌ Could not re-encrypt 2FA secret for user ${user._id}:`, error.message);
+      failed++;
+    }
+  }
+
+  console.log(`✅ Re-encrypted ${reEncrypted} 2FA secrets (${failed} failed)`);
+
+  await mongoose.disconnect();
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+};
+
+run().catch(async (error) => {
+  console.error('❌ 2FA secret re-encryption failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
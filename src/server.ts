@@ -3,6 +3,7 @@ import dotenv from 'dotenv';
 import { connectDB } from './config/db';
 import app from './app';
 import { startReminderCronJob } from './services/reminder.service';
+import { loadBreachedPasswordList } from './lib/passwordPolicy';
 
 // Load environment variables
 dotenv.config();
@@ -17,6 +18,7 @@ const server = http.createServer(app);
 const startServer = async () => {
   try {
     await connectDB();
+    await loadBreachedPasswordList();
     server.listen(PORT, () => {
       console.log(`🚀 Server is running on port ${PORT}`);
       console.log(`📦 Environment: ${NODE_ENV}`);
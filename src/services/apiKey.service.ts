@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import ApiKey, { IApiKey, ApiKeyScope } from '../models/apiKey.model';
+import { hashSecret } from '../lib/secretHash';
+
+// Every key starts with this, which is how authenticate tells keys from JWTs
+export const API_KEY_PREFIX = 'nmk_';
+
+const MAX_KEYS_PER_USER = 20;
+const LAST_USED_PRECISION_MS = 60 * 1000; // Record usage at most once a minute per key
+
+// Result of creating an API key
+export type CreateApiKeyResult =
+  | { status: 'created'; apiKey: IApiKey; key: string }
+  | { status: 'limit_reached' };
+
+/**
+ * Check whether a bearer credential looks like an API key
+ * @param token - Bearer credential
+ * @returns True for API keys (JWTs never start with the prefix)
+ */
+export const isApiKey = (token: string): boolean => {
+  return token.startsWith(API_KEY_PREFIX);
+};
+
+/**
+ * Create an API key (the key itself is returned once and only its hash is stored)
+ * @param userId - Owner of the key
+ * @param name - Display name
+ * @param scopes - What the key may do
+ * @param expiresInDays - Lifetime in days (no expiry when omitted)
+ * @returns Created key, or why it could not be created
+ */
+export const createApiKey = async (
+  userId: string,
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresInDays?: number
+): Promise<CreateApiKeyResult> => {
+  const existingKeys = await ApiKey.countDocuments({ userId });
+
+  if (existingKeys >= MAX_KEYS_PER_USER) {
+    return { status: 'limit_reached' };
+  }
+
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const apiKey = await ApiKey.create({
+    userId,
+    name,
+    prefix: key.substring(0, API_KEY_PREFIX.length + 6),
+    keyHash: hashSecret(key),
+    scopes: Array.from(new Set(scopes)),
+    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : undefined
+  });
+
+  return { status: 'created', apiKey, key };
+};
+
+/**
+ * Find the API key presented by a client and record its use
+ * @param key - Key from the Authorization header
+ * @returns The key, or null if unknown or expired
+ */
+export const authenticateApiKey = async (key: string): Promise<IApiKey | null> => {
+  const apiKey = await ApiKey.findOne({ keyHash: hashSecret(key) });
+
+  if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())) {
+    return null;
+  }
+
+  const now = new Date();
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_PRECISION_MS) {
+    await ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: now } });
+  }
+
+  return apiKey;
+};
+
+/**
+ * List a user's API keys
+ * @param userId - User ID
+ * @returns Keys, newest first
+ */
+export const listApiKeys = async (userId: string): Promise<IApiKey[]> => {
+  return ApiKey.find({ userId }).sort({ createdAt: -1 });
+};
+
+/**
+ * Delete an API key (it stops working immediately)
+ * @param userId - Owner of the key
+ * @param apiKeyId - Key to delete
+ * @returns True if the key existed
+ */
+export const deleteApiKey = async (userId: string, apiKeyId: string): Promise<boolean> => {
+  const result = await ApiKey.deleteOne({ _id: apiKeyId, userId });
+  return result.deletedCount > 0;
+};
+
+/**
+ * Delete all of a user's API keys (password change or reset, reported sign-in, admin sign-out)
+ * @param userId - Owner of the keys
+ * @returns Number of keys deleted
+ */
+export const deleteAllApiKeys = async (userId: string): Promise<number> => {
+  const result = await ApiKey.deleteMany({ userId });
+  return result.deletedCount;
+};
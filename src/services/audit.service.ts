@@ -0,0 +1,85 @@
+import { Request } from 'express';
+import AuditEvent, { IAuditEvent, AuditEventType, AuditOutcome } from '../models/auditEvent.model';
+import { getClientInfo } from './session.service';
+
+// An event to record
+export interface AuditEventInput {
+  type: AuditEventType;
+  outcome?: AuditOutcome; // Default: 'success'
+  req?: Request; // Supplies IP, user agent and (if authenticated) actor and target
+  actorId?: string; // Default: the authenticated user (or the admin impersonating them)
+  targetUserId?: string; // Default: the authenticated user, else the actor
+  metadata?: Record<string, unknown>;
+}
+
+// Filters for querying events
+export interface AuditEventFilter {
+  types?: AuditEventType[];
+  outcome?: AuditOutcome;
+  actorId?: string;
+  targetUserId?: string;
+  ipAddress?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Record a security event
+ * Never throws: a failed write is logged so it can't break the request
+ * that triggered it.
+ * @param event - Event to record
+ */
+export const recordAuditEvent = async (event: AuditEventInput): Promise<void> => {
+  const actorId = event.actorId || event.req?.user?.impersonatorId || event.req?.user?.id;
+
+  try {
+    await AuditEvent.create({
+      type: event.type,
+      outcome: event.outcome || 'success',
+      actorId,
+      targetUserId: event.targetUserId || event.req?.user?.id || actorId,
+      ...(event.req ? getClientInfo(event.req) : {}),
+      metadata: event.metadata
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to record audit event:', { type: event.type, error: error.message });
+  }
+};
+
+/**
+ * Query audit events (newest first)
+ * @param filter - Filters
+ * @param page - Page number (from 1)
+ * @param limit - Page size
+ * @returns Events on the page and the total number of matches
+ */
+export const listAuditEvents = async (
+  filter: AuditEventFilter,
+  page: number,
+  limit: number
+): Promise<{ events: IAuditEvent[]; total: number }> => {
+  const query: Record<string, unknown> = {};
+
+  if (filter.types && filter.types.length > 0) query.type = { $in: filter.types };
+  if (filter.outcome) query.outcome = filter.outcome;
+  if (filter.actorId) query.actorId = filter.actorId;
+  if (filter.targetUserId) query.targetUserId = filter.targetUserId;
+  if (filter.ipAddress) query.ipAddress = filter.ipAddress;
+
+  if (filter.from || filter.to) {
+    query.createdAt = {
+      ...(filter.from ? { $gte: filter.from } : {}),
+      ...(filter.to ? { $lte: filter.to } : {})
+    };
+  }
+
+  const [events, total] = await Promise.all([
+    AuditEvent.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    AuditEvent.countDocuments(query)
+  ]);
+
+  return { events, total };
+};
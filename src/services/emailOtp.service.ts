@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import EmailOtp, { IEmailOtp } from '../models/emailOtp.model';
+import { IUser } from '../models/user.model';
+import { hashSecret, compareSecret } from '../lib/secretHash';
+import { sendTwoFactorCodeEmail } from '../lib/email';
+
+const CODE_LIFETIME_MS = 10 * 60 * 1000; // 10 minutes
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between emails
+export const MAX_CODE_ATTEMPTS = 5;
+
+export type EmailOtpPurpose = IEmailOtp['purpose'];
+
+// Result of requesting a code
+export type SendEmailOtpResult =
+  | { status: 'sent'; expiresIn: number }
+  | { status: 'cooldown'; retryAfter: number };
+
+// Result of checking a code
+export type VerifyEmailOtpResult =
+  | { status: 'ok' }
+  | { status: 'invalid' }
+  | { status: 'too_many_attempts' };
+
+// Codes are scoped to a user, a purpose and (for login and device) the challenge
+const buildFilter = (userId: Types.ObjectId | string, purpose: EmailOtpPurpose, challengeId?: Types.ObjectId | string) => ({
+  userId,
+  purpose,
+  challengeId: challengeId ?? null
+});
+
+/**
+ * Generate a 6-digit numeric code
+ * @returns Zero-padded code
+ */
+const generateCode = (): string => {
+  return crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+};
+
+/**
+ * Email a new one-time code, replacing any pending code for the same scope
+ * @param user - Recipient
+ * @param purpose - 'login' (second factor), 'setup' (enrollment) or 'device' (new-device confirmation)
+ * @param challengeId - Challenge the code completes (login and device only)
+ * @returns Sent, or the seconds left on the resend cooldown
+ */
+export const sendEmailOtp = async (
+  user: IUser,
+  purpose: EmailOtpPurpose,
+  challengeId?: Types.ObjectId | string
+): Promise<SendEmailOtpResult> => {
+  const filter = buildFilter(user._id, purpose, challengeId);
+  const code = generateCode();
+  const now = Date.now();
+
+  try {
+    // Only replace a code whose cooldown has passed; if one exists that is still
+    // cooling down, the upsert collides with it on the unique index
+    await EmailOtp.findOneAndUpdate(
+      { ...filter, lastSentAt: { $lte: new Date(now - RESEND_COOLDOWN_MS) } },
+      {
+        $set: {
+          codeHash: hashSecret(code), // Only the hash is stored
+          attempts: 0,
+          lastSentAt: new Date(now),
+          expiresAt: new Date(now + CODE_LIFETIME_MS)
+        }
+      },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    if (error.code !== 11000) {
+      throw error;
+    }
+
+    const pending = await EmailOtp.findOne(filter);
+    const retryAfterMs = pending ? pending.lastSentAt.getTime() + RESEND_COOLDOWN_MS - now : 0;
+
+    return { status: 'cooldown', retryAfter: Math.max(1, Math.ceil(retryAfterMs / 1000)) };
+  }
+
+  await sendTwoFactorCodeEmail(user.email, code, user.name, CODE_LIFETIME_MS / 60000, purpose);
+
+  return { status: 'sent', expiresIn: CODE_LIFETIME_MS / 1000 };
+};
+
+/**
+ * Check a one-time code and consume it on success
+ * @param userId - User the code was sent to
+ * @param purpose - 'login', 'setup' or 'device'
+ * @param code - Code entered by the user
+ * @param challengeId - Challenge the code completes (login and device only)
+ * @returns Verification result
+ */
+export const verifyEmailOtp = async (
+  userId: Types.ObjectId | string,
+  purpose: EmailOtpPurpose,
+  code: string,
+  challengeId?: Types.ObjectId | string
+): Promise<VerifyEmailOtpResult> => {
+  const filter = buildFilter(userId, purpose, challengeId);
+
+  // Atomically count the attempt so parallel guesses can't exceed the limit
+  const otp = await EmailOtp.findOneAndUpdate(
+    { ...filter, expiresAt: { $gt: new Date() }, attempts: { $lt: MAX_CODE_ATTEMPTS } },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  ).select('+codeHash');
+
+  if (!otp) {
+    const exhausted = await EmailOtp.exists({ ...filter, attempts: { $gte: MAX_CODE_ATTEMPTS } });
+    return exhausted ? { status: 'too_many_attempts' } : { status: 'invalid' };
+  }
+
+  if (!compareSecret(code, otp.codeHash)) {
+    return { status: 'invalid' };
+  }
+
+  // Codes are single-use
+  const result = await EmailOtp.deleteOne({ _id: otp._id });
+
+  return result.deletedCount > 0 ? { status: 'ok' } : { status: 'invalid' };
+};
+
+/**
+ * Remove all pending codes for a user (e.g. when the factor is turned off)
+ * @param userId - User ID
+ */
+export const clearEmailOtps = async (userId: Types.ObjectId | string): Promise<void> => {
+  await EmailOtp.deleteMany({ userId });
+};
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import User, { IUser } from '../models/user.model';
+import { hashSecret } from '../lib/secretHash';
+import {
+  sendVerificationEmail,
+  sendEmailChangeConfirmationEmail,
+  sendEmailChangeNoticeEmail
+} from '../lib/email';
+
+const VERIFICATION_LIFETIME_MS = 24 * 60 * 60 * 1000; // 24 hours (matches registration)
+const EMAIL_CHANGE_LIFETIME_HOURS = 24;
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between emails per account
+
+// Result of resending the verification email
+export type ResendVerificationResult =
+  | { status: 'sent' }
+  | { status: 'cooldown' }
+  | { status: 'not_needed' }; // Unknown email or already verified
+
+// Result of requesting an email change
+export type EmailChangeRequestResult =
+  | { status: 'sent'; pendingEmail: string }
+  | { status: 'same_email' }
+  | { status: 'email_taken' }
+  | { status: 'cooldown'; retryAfter: number };
+
+// Result of confirming an email change
+export type EmailChangeConfirmResult =
+  | { status: 'ok'; user: IUser }
+  | { status: 'invalid' }
+  | { status: 'email_taken' };
+
+// Pending email change fields (cleared on confirm, cancel or a reported sign-in)
+export const PENDING_EMAIL_FIELDS = {
+  pendingEmail: 1,
+  pendingEmailToken: 1,
+  pendingEmailCancelToken: 1,
+  pendingEmailExpires: 1
+};
+
+/**
+ * Send a new verification email (replaces the previous link)
+ * @param email - Account email
+ * @returns Outcome (callers should not reveal it, to avoid account enumeration)
+ */
+export const resendVerificationEmail = async (email: string): Promise<ResendVerificationResult> => {
+  const user = await User.findOne({ email, isEmailVerified: false });
+
+  if (!user) {
+    return { status: 'not_needed' };
+  }
+
+  const verificationToken = crypto.randomBytes(32).toString('hex');
+
+  // Claim the send atomically so parallel requests can't bypass the cooldown
+  const claimed = await User.findOneAndUpdate(
+    {
+      _id: user._id,
+      isEmailVerified: false,
+      $or: [
+        { emailVerificationSentAt: { $exists: false } },
+        { emailVerificationSentAt: { $lte: new Date(Date.now() - RESEND_COOLDOWN_MS) } }
+      ]
+    },
+    {
+      $set: {
+        emailVerificationToken: hashSecret(verificationToken), // Only the hash is stored
+        emailVerificationExpires: new Date(Date.now() + VERIFICATION_LIFETIME_MS),
+        emailVerificationSentAt: new Date()
+      }
+    }
+  );
+
+  if (!claimed) {
+    return { status: 'cooldown' };
+  }
+
+  await sendVerificationEmail(user.email, verificationToken, user.name);
+
+  return { status: 'sent' };
+};
+
+/**
+ * Start an email change
+ * The current email keeps working until the new one is confirmed from the
+ * link sent to it. The current address gets a notice with a cancel link.
+ * @param user - User changing their email
+ * @param newEmail - Requested email (lowercase)
+ * @returns Outcome
+ */
+export const requestEmailChange = async (
+  user: IUser,
+  newEmail: string
+): Promise<EmailChangeRequestResult> => {
+  if (newEmail === user.email) {
+    return { status: 'same_email' };
+  }
+
+  const taken = await User.exists({ email: newEmail, _id: { $ne: user._id } });
+
+  if (taken) {
+    return { status: 'email_taken' };
+  }
+
+  const confirmToken = crypto.randomBytes(32).toString('hex');
+  const cancelToken = crypto.randomBytes(32).toString('hex');
+
+  const claimed = await User.findOneAndUpdate(
+    {
+      _id: user._id,
+      $or: [
+        { pendingEmailSentAt: { $exists: false } },
+        { pendingEmailSentAt: { $lte: new Date(Date.now() - RESEND_COOLDOWN_MS) } }
+      ]
+    },
+    {
+      $set: {
+        pendingEmail: newEmail,
+        pendingEmailToken: hashSecret(confirmToken), // Only hashes are stored
+        pendingEmailCancelToken: hashSecret(cancelToken),
+        pendingEmailExpires: new Date(Date.now() + EMAIL_CHANGE_LIFETIME_HOURS * 60 * 60 * 1000),
+        pendingEmailSentAt: new Date()
+      }
+    }
+  ).select('+pendingEmailSentAt');
+
+  if (!claimed) {
+    const current = await User.findById(user._id).select('+pendingEmailSentAt');
+    const sentAt = current?.pendingEmailSentAt?.getTime() || Date.now();
+
+    return {
+      status: 'cooldown',
+      retryAfter: Math.max(1, Math.ceil((sentAt + RESEND_COOLDOWN_MS - Date.now()) / 1000))
+    };
+  }
+
+  try {
+    await sendEmailChangeConfirmationEmail(newEmail, confirmToken, user.name, EMAIL_CHANGE_LIFETIME_HOURS);
+  } catch (emailError: any) {
+    console.error('❌ Failed to send email change confirmation:', emailError.message);
+    // The user can request the change again after the cooldown
+  }
+
+  try {
+    await sendEmailChangeNoticeEmail(user.email, newEmail, cancelToken, user.name);
+  } catch (emailError: any) {
+    console.error('❌ Failed to send email change notice:', emailError.message);
+  }
+
+  return { status: 'sent', pendingEmail: newEmail };
+};
+
+/**
+ * Confirm an email change from the link sent to the new address
+ * Clicking proves control of the new address, so it is marked verified.
+ * @param confirmToken - Token from the confirmation email
+ * @returns Updated user, or why the change could not be made
+ */
+export const confirmPendingEmail = async (confirmToken: string): Promise<EmailChangeConfirmResult> => {
+  const tokenHash = hashSecret(confirmToken);
+
+  const user = await User.findOne({
+    pendingEmailToken: tokenHash,
+    pendingEmailExpires: { $gt: new Date() }
+  });
+
+  if (!user || !user.pendingEmail) {
+    return { status: 'invalid' };
+  }
+
+  const taken = await User.exists({ email: user.pendingEmail, _id: { $ne: user._id } });
+
+  if (taken) {
+    return { status: 'email_taken' };
+  }
+
+  try {
+    // Each link works once: the token is part of the filter
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id, pendingEmailToken: tokenHash },
+      {
+        $set: { email: user.pendingEmail, isEmailVerified: true },
+        $unset: { ...PENDING_EMAIL_FIELDS, emailVerificationToken: 1, emailVerificationExpires: 1 }
+      },
+      { new: true }
+    );
+
+    return updated ? { status: 'ok', user: updated } : { status: 'invalid' };
+  } catch (error: any) {
+    // The address was registered in the meantime
+    if (error.code === 11000) {
+      return { status: 'email_taken' };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Cancel a pending email change from the notice sent to the current address
+ * @param cancelToken - Token from the notice email
+ * @returns The user whose change was cancelled, or null if the link is invalid or used
+ */
+export const cancelPendingEmail = async (cancelToken: string): Promise<IUser | null> => {
+  return User.findOneAndUpdate(
+    {
+      pendingEmailCancelToken: hashSecret(cancelToken),
+      pendingEmailExpires: { $gt: new Date() }
+    },
+    { $unset: PENDING_EMAIL_FIELDS }
+  );
+};
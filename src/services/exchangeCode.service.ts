@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import ExchangeCode from '../models/exchangeCode.model';
+import User, { IUser } from '../models/user.model';
+import { hashSecret } from '../lib/secretHash';
+
+const EXCHANGE_CODE_LIFETIME_MS = 60 * 1000; // 1 minute: only covers the frontend redirect
+
+/**
+ * Issue a single-use code the frontend swaps for tokens
+ * Keeps access and refresh tokens out of redirect URLs (browser history,
+ * server logs and Referer headers).
+ * @param user - Signed-in user
+ * @returns Opaque code
+ */
+export const createExchangeCode = async (user: IUser): Promise<string> => {
+  const code = crypto.randomBytes(32).toString('base64url');
+
+  await ExchangeCode.create({
+    code: hashSecret(code), // Only the hash is stored
+    userId: user._id,
+    tokenVersion: user.tokenVersion,
+    expiresAt: new Date(Date.now() + EXCHANGE_CODE_LIFETIME_MS)
+  });
+
+  return code;
+};
+
+/**
+ * Redeem an exchange code (each code works once)
+ * @param code - Code from the redirect URL
+ * @returns The user the code was issued for, or null if invalid, expired or used
+ */
+export const redeemExchangeCode = async (code: string): Promise<IUser | null> => {
+  const exchange = await ExchangeCode.findOneAndDelete({
+    code: hashSecret(code),
+    expiresAt: { $gt: new Date() }
+  });
+
+  if (!exchange) {
+    return null;
+  }
+
+  const user = await User.findById(exchange.userId);
+
+  // Password changes in between invalidate the code
+  if (!user || user.tokenVersion !== exchange.tokenVersion) {
+    return null;
+  }
+
+  return user;
+};
@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import Identity, { IIdentity } from '../models/identity.model';
+import IdentityLink, { IIdentityLink } from '../models/identityLink.model';
+import Passkey from '../models/passkey.model';
+import User, { IUser } from '../models/user.model';
+import { OAuthProviderConfig } from '../config/oauth';
+import { OAuthProfile } from '../lib/oauth';
+import { hashSecret } from '../lib/secretHash';
+import { sendAccountLinkEmail } from '../lib/email';
+
+const LINK_LIFETIME_MINUTES = 15;
+
+// Result of signing in with an external provider
+export type OAuthSignInResult =
+  | { status: 'ok'; user: IUser; created: boolean }
+  | { status: 'link_required'; linkToken: string }
+  | { status: 'email_required' }
+  | { status: 'email_unverified' };
+
+// Result of unlinking an identity
+export type UnlinkIdentityResult = 'unlinked' | 'not_found' | 'last_sign_in_method';
+
+/**
+ * Find or create the user for an external sign-in
+ * Existing identities sign in directly and unknown emails get a new account
+ * (only if the provider has verified the email).
+ * An email that belongs to an existing account is never linked silently:
+ * the owner has to confirm with their password or the emailed link.
+ * @param provider - Provider the user signed in with
+ * @param profile - Profile returned by the provider
+ * @returns Signed-in user, a pending link, or why sign-in is not possible
+ */
+export const signInWithOAuth = async (
+  provider: OAuthProviderConfig,
+  profile: OAuthProfile
+): Promise<OAuthSignInResult> => {
+  const identity = await Identity.findOne({
+    provider: provider.name,
+    providerUserId: profile.providerUserId
+  });
+
+  if (identity) {
+    const user = await User.findById(identity.userId);
+
+    if (user) {
+      identity.lastUsedAt = new Date();
+      await identity.save();
+      return { status: 'ok', user, created: false };
+    }
+
+    // The user was deleted: drop the stale link and continue as a new sign-in
+    await identity.deleteOne();
+  }
+
+  if (!profile.email) {
+    return { status: 'email_required' };
+  }
+
+  const existingUser = await User.findOne({ email: profile.email });
+
+  if (existingUser) {
+    const linkToken = await createIdentityLink(existingUser, provider, profile);
+    return { status: 'link_required', linkToken };
+  }
+
+  // An unverified email could belong to someone else: do not claim it with a new account
+  if (!profile.emailVerified) {
+    return { status: 'email_unverified' };
+  }
+
+  const name = profile.name && profile.name.trim().length >= 2
+    ? profile.name.trim().substring(0, 50)
+    : `${provider.displayName} User`;
+
+  const user = await User.create({
+    name,
+    email: profile.email,
+    isEmailVerified: true,
+    role: 'user'
+  });
+
+  await Identity.create({
+    userId: user._id,
+    provider: provider.name,
+    providerUserId: profile.providerUserId,
+    email: profile.email,
+    lastUsedAt: new Date()
+  });
+
+  return { status: 'ok', user, created: true };
+};
+
+/**
+ * Record a pending link and email the account owner a confirmation link
+ * @param user - Existing account with the same email
+ * @param provider - Provider the user signed in with
+ * @param profile - Profile returned by the provider
+ * @returns Token the signing-in browser uses to confirm with the password
+ */
+const createIdentityLink = async (
+  user: IUser,
+  provider: OAuthProviderConfig,
+  profile: OAuthProfile
+): Promise<string> => {
+  const linkToken = crypto.randomBytes(32).toString('hex');
+  const emailToken = crypto.randomBytes(32).toString('hex');
+
+  await IdentityLink.create({
+    userId: user._id,
+    provider: provider.name,
+    providerUserId: profile.providerUserId,
+    email: profile.email,
+    emailVerified: profile.emailVerified,
+    linkToken: hashSecret(linkToken), // Only hashes are stored
+    emailToken: hashSecret(emailToken),
+    expiresAt: new Date(Date.now() + LINK_LIFETIME_MINUTES * 60 * 1000)
+  });
+
+  try {
+    await sendAccountLinkEmail(
+      user.email,
+      emailToken,
+      user.name,
+      provider.displayName,
+      profile.email as string,
+      LINK_LIFETIME_MINUTES
+    );
+  } catch (emailError: any) {
+    console.error('❌ Failed to send account link email:', emailError.message);
+    // The owner can still confirm with their password
+  }
+
+  return linkToken;
+};
+
+/**
+ * Find a pending link by the token given to the signing-in browser
+ * @param linkToken - Link token from the redirect
+ * @returns Pending link, or null if unknown or expired
+ */
+export const findIdentityLink = async (linkToken: string): Promise<IIdentityLink | null> => {
+  return IdentityLink.findOne({
+    linkToken: hashSecret(linkToken),
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+/**
+ * Turn a pending link into an identity (each pending link works once)
+ * @param filter - Which pending link to complete
+ * @returns The linked user, or null if the link was already used or expired
+ */
+const completeIdentityLink = async (filter: Record<string, unknown>): Promise<IUser | null> => {
+  const link = await IdentityLink.findOneAndDelete({ ...filter, expiresAt: { $gt: new Date() } });
+
+  if (!link) {
+    return null;
+  }
+
+  const user = await User.findById(link.userId);
+
+  if (!user) {
+    return null;
+  }
+
+  try {
+    await Identity.create({
+      userId: user._id,
+      provider: link.provider,
+      providerUserId: link.providerUserId,
+      email: link.email,
+      lastUsedAt: new Date()
+    });
+  } catch (error: any) {
+    // The provider account was linked elsewhere in the meantime
+    if (error.code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+
+  return user;
+};
+
+/**
+ * Link after the owner confirmed with their password
+ * @param link - Pending link (password already verified by the caller)
+ * @returns The linked user, or null if the link is no longer pending
+ */
+export const confirmIdentityLinkWithPassword = async (link: IIdentityLink): Promise<IUser | null> => {
+  return completeIdentityLink({ _id: link._id });
+};
+
+/**
+ * Link after the owner clicked the emailed confirmation link
+ * Clicking proves control of the account's email, so it is marked verified.
+ * @param emailToken - Token from the email
+ * @returns The linked user, or null if invalid, expired or used
+ */
+export const confirmIdentityLinkWithEmail = async (emailToken: string): Promise<IUser | null> => {
+  const user = await completeIdentityLink({ emailToken: hashSecret(emailToken) });
+
+  if (user && !user.isEmailVerified) {
+    user.isEmailVerified = true;
+    await user.save();
+  }
+
+  return user;
+};
+
+/**
+ * List the identities linked to a user
+ * @param userId - User ID
+ * @returns Identities, oldest first
+ */
+export const listIdentities = async (userId: string): Promise<IIdentity[]> => {
+  return Identity.find({ userId }).sort({ createdAt: 1 });
+};
+
+/**
+ * Unlink an identity unless it is the user's last way to sign in
+ * Remaining sign-in methods are a password, a passkey or another identity.
+ * (Magic links need one of those to have created the account, so they
+ * don't count.)
+ * @param userId - Owner of the identity
+ * @param identityId - Identity to unlink
+ * @returns Outcome
+ */
+export const unlinkIdentity = async (
+  userId: string,
+  identityId: string
+): Promise<UnlinkIdentityResult> => {
+  const identity = await Identity.findOne({ _id: identityId, userId });
+
+  if (!identity) {
+    return 'not_found';
+  }
+
+  const [user, otherIdentities, hasPasskey] = await Promise.all([
+    User.findById(userId).select('+password'),
+    Identity.countDocuments({ userId, _id: { $ne: new Types.ObjectId(identityId) } }),
+    Passkey.exists({ userId })
+  ]);
+
+  if (!user?.password && otherIdentities === 0 && !hasPasskey) {
+    return 'last_sign_in_method';
+  }
+
+  await identity.deleteOne();
+
+  return 'unlinked';
+};
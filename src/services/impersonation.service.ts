@@ -0,0 +1,69 @@
+import User from '../models/user.model';
+import { generateImpersonationToken, verifyAccessToken, decodeToken, VerifiedTokenPayload } from '../lib/jwt';
+import { revokeAccessToken } from './tokenRevocation.service';
+
+// Impersonation tokens are short-lived and can't be refreshed
+const IMPERSONATION_LIFETIME_MINUTES = parseInt(process.env.IMPERSONATION_LIFETIME_MINUTES || '15');
+
+// Result of starting an impersonation
+export type StartImpersonationResult =
+  | { status: 'started'; accessToken: string; tokenId: string; expiresAt: Date }
+  | { status: 'not_found' }
+  | { status: 'target_is_admin' };
+
+/**
+ * Issue an impersonation token for a user
+ * Admins can't be impersonated: the token would carry their admin role.
+ * @param impersonatorId - Admin starting the impersonation
+ * @param targetUserId - User to act as
+ * @returns Token and its expiry, or why impersonation is not possible
+ */
+export const startImpersonation = async (
+  impersonatorId: string,
+  targetUserId: string
+): Promise<StartImpersonationResult> => {
+  const user = await User.findById(targetUserId);
+
+  if (!user) {
+    return { status: 'not_found' };
+  }
+
+  if (user.role === 'admin') {
+    return { status: 'target_is_admin' };
+  }
+
+  const accessToken = generateImpersonationToken(
+    {
+      userId: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      tokenVersion: user.tokenVersion
+    },
+    impersonatorId,
+    IMPERSONATION_LIFETIME_MINUTES * 60
+  );
+
+  const { jti, exp } = decodeToken(accessToken) as VerifiedTokenPayload;
+
+  return { status: 'started', accessToken, tokenId: jti, expiresAt: new Date(exp * 1000) };
+};
+
+/**
+ * End an impersonation before it expires
+ * @param token - Impersonation token
+ * @returns Claims of the revoked token, or null if it is not a valid impersonation token
+ */
+export const stopImpersonation = async (token: string): Promise<VerifiedTokenPayload | null> => {
+  const decoded = verifyAccessToken(token);
+
+  if (!decoded || !decoded.act?.sub) {
+    return null;
+  }
+
+  await revokeAccessToken(
+    { jti: decoded.jti, userId: decoded.userId, expiresAt: new Date(decoded.exp * 1000) },
+    'revoked'
+  );
+
+  return decoded;
+};
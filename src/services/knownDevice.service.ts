@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import KnownDevice from '../models/knownDevice.model';
+import User, { IUser } from '../models/user.model';
+import { hashSecret } from '../lib/secretHash';
+import { getDeviceCookie } from '../lib/cookies';
+import { sendNewDeviceEmail } from '../lib/email';
+import { getClientInfo, revokeAllSessions } from './session.service';
+import { deleteAllApiKeys } from './apiKey.service';
+import { createTwoFactorChallenge } from './twoFactorChallenge.service';
+import { sendEmailOtp } from './emailOtp.service';
+import { startPasswordReset } from './passwordReset.service';
+import { PENDING_EMAIL_FIELDS } from './emailVerification.service';
+import { recordAuditEvent } from './audit.service';
+
+const DEVICE_MEMORY_DAYS = 180; // Forget devices unused for this long
+const REPORT_LINK_LIFETIME_DAYS = 7;
+
+// Ask for an emailed code before issuing tokens to an unfamiliar device
+// (every sign-in method, after 2FA where enabled; off by default)
+export const DEVICE_CONFIRMATION_REQUIRED = process.env.NEW_DEVICE_CONFIRMATION === 'true';
+
+// The device a sign-in comes from
+export interface SignInDevice {
+  deviceToken: string; // Device cookie value (existing, or new for this browser)
+  known: boolean;
+}
+
+/**
+ * Work out whether a sign-in comes from a device the user has used before
+ * A device is known only by its cookie (an IP address and user agent are easy
+ * to copy). A user's first sign-in only records the device, so existing
+ * accounts aren't alerted once for every device.
+ * @param user - User signing in
+ * @param req - Express request object
+ * @returns Device cookie value and whether the device is known
+ */
+export const identifySignInDevice = async (user: IUser, req: Request): Promise<SignInDevice> => {
+  const cookieToken = getDeviceCookie(req);
+  const deviceToken = cookieToken || crypto.randomBytes(32).toString('base64url');
+
+  const [hasDevices, isKnown] = await Promise.all([
+    KnownDevice.exists({ userId: user._id }),
+    cookieToken ? KnownDevice.exists({ userId: user._id, deviceId: hashSecret(cookieToken) }) : null
+  ]);
+
+  return { deviceToken, known: !hasDevices || !!isKnown };
+};
+
+/**
+ * Record a completed sign-in and alert the user if the device is new
+ * The alert email carries a "this wasn't me" link (see reportUnrecognizedSignIn).
+ * @param user - Signed-in user
+ * @param req - Express request object
+ * @param device - Result of identifySignInDevice
+ */
+export const rememberSignInDevice = async (user: IUser, req: Request, device: SignInDevice): Promise<void> => {
+  const now = new Date();
+  const { userAgent, ipAddress } = getClientInfo(req);
+  const reportToken = device.known ? null : crypto.randomBytes(32).toString('hex');
+
+  try {
+    await KnownDevice.findOneAndUpdate(
+      { userId: user._id, deviceId: hashSecret(device.deviceToken) },
+      {
+        $set: {
+          userAgent,
+          ipAddress,
+          lastSeenAt: now,
+          expiresAt: new Date(now.getTime() + DEVICE_MEMORY_DAYS * 24 * 60 * 60 * 1000),
+          ...(reportToken ? {
+            reportToken: hashSecret(reportToken), // Only the hash is stored
+            reportTokenExpires: new Date(now.getTime() + REPORT_LINK_LIFETIME_DAYS * 24 * 60 * 60 * 1000)
+          } : {})
+        }
+      },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    // A parallel sign-in from the same device recorded it first
+    if (error.code !== 11000) {
+      throw error;
+    }
+  }
+
+  if (!reportToken) {
+    return;
+  }
+
+  await recordAuditEvent({ type: 'new_device_sign_in', req, actorId: user._id.toString() });
+
+  try {
+    await sendNewDeviceEmail(
+      user.email,
+      reportToken,
+      user.name,
+      { userAgent, ipAddress, signedInAt: now },
+      REPORT_LINK_LIFETIME_DAYS
+    );
+  } catch (emailError: any) {
+    console.error('❌ Failed to send new device email:', emailError.message);
+  }
+};
+
+/**
+ * Identify and record a sign-in in one step (sign-ins that never need confirmation)
+ * @param user - Signed-in user
+ * @param req - Express request object
+ * @returns Device cookie value to set
+ */
+export const trackSignInDevice = async (user: IUser, req: Request): Promise<string> => {
+  const device = await identifySignInDevice(user, req);
+  await rememberSignInDevice(user, req, device);
+  return device.deviceToken;
+};
+
+/**
+ * Start confirming an unfamiliar device: create a challenge and email a code
+ * The client completes it with POST /api/auth/confirm-device.
+ * @param user - User who passed the first sign-in step
+ * @returns Challenge details for the client
+ */
+export const startDeviceConfirmation = async (user: IUser): Promise<{
+  challengeToken: string;
+  expiresIn: number;
+  emailCodeSent: boolean;
+}> => {
+  const { challengeToken, challengeId, expiresIn } = await createTwoFactorChallenge(user, 'device');
+  const sent = await sendEmailOtp(user, 'device', challengeId);
+
+  return { challengeToken, expiresIn, emailCodeSent: sent.status === 'sent' };
+};
+
+/**
+ * Handle a "this wasn't me" link: forget every known device, cancel a pending
+ * email change, sign the account out everywhere (API keys included) and email
+ * a password reset link
+ * @param reportToken - Token from the new-device email
+ * @returns The affected user, or null if the link is invalid, expired or used
+ */
+export const reportUnrecognizedSignIn = async (reportToken: string): Promise<IUser | null> => {
+  const device = await KnownDevice.findOneAndDelete({
+    reportToken: hashSecret(reportToken),
+    reportTokenExpires: { $gt: new Date() }
+  });
+
+  if (!device) {
+    return null;
+  }
+
+  // Invalidate every token and pending sign-in challenge issued so far, and stop
+  // the intruder from moving the account to another email address
+  const user = await User.findByIdAndUpdate(
+    device.userId,
+    { $inc: { tokenVersion: 1 }, $unset: PENDING_EMAIL_FIELDS },
+    { new: true }
+  );
+
+  if (!user) {
+    return null;
+  }
+
+  // Other devices may be the intruder's too: all of them get a new-device check next time
+  await KnownDevice.deleteMany({ userId: user._id });
+  await revokeAllSessions(user._id.toString(), 'revoked');
+  await deleteAllApiKeys(user._id.toString());
+  await startPasswordReset(user);
+
+  return user;
+};
@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import LoginAttempt from '../models/loginAttempt.model';
+import { IUser } from '../models/user.model';
+import { sendAccountLockedEmail } from '../lib/email';
+import { hashSecret } from '../lib/secretHash';
+import { recordAuditEvent } from './audit.service';
+
+// Throttling policy for one kind of key (account or IP)
+interface ThrottlePolicy {
+  delayAfter: number; // Failures before progressive delays start
+  maxDelaySeconds: number; // Upper bound for the progressive delay
+  maxFailures: number; // Failures before a temporary lockout
+  lockoutMinutes: number;
+}
+
+const ACCOUNT_POLICY: ThrottlePolicy = {
+  delayAfter: 3,
+  maxDelaySeconds: 30,
+  maxFailures: parseInt(process.env.LOCKOUT_MAX_FAILURES || '10'),
+  lockoutMinutes: parseInt(process.env.LOCKOUT_DURATION_MINUTES || '15')
+};
+
+const IP_POLICY: ThrottlePolicy = {
+  delayAfter: 20,
+  maxDelaySeconds: 30,
+  maxFailures: parseInt(process.env.LOCKOUT_MAX_FAILURES_PER_IP || '100'),
+  lockoutMinutes: parseInt(process.env.LOCKOUT_DURATION_MINUTES || '15')
+};
+
+const COUNTER_TTL_MS = 24 * 60 * 60 * 1000; // Forget failures after 24 quiet hours
+
+// Result of checking whether a login attempt may proceed
+export type LoginThrottleResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'locked' | 'throttled'; retryAfter: number };
+
+const accountKey = (email: string) => `account:${email.toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+/**
+ * Work out why a key refuses attempts right now
+ * @param key - Attempt key
+ * @returns Whether attempts are allowed, and if not, for how long to wait
+ */
+const getKeyThrottle = async (key: string): Promise<LoginThrottleResult> => {
+  const attempt = await LoginAttempt.findOne({ key });
+  const now = Date.now();
+
+  // A lockout always wins over a progressive delay
+  if (attempt?.lockedUntil && attempt.lockedUntil.getTime() > now) {
+    return { allowed: false, reason: 'locked', retryAfter: Math.ceil((attempt.lockedUntil.getTime() - now) / 1000) };
+  }
+
+  if (attempt?.nextAttemptAt && attempt.nextAttemptAt.getTime() > now) {
+    return { allowed: false, reason: 'throttled', retryAfter: Math.ceil((attempt.nextAttemptAt.getTime() - now) / 1000) };
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Count one attempt against a key, unless the key is locked or delayed
+ * Checking and counting is a single update, so parallel guesses can't all pass
+ * before the first failure is recorded. Every attempt counts as a failure until
+ * the sign-in completes (see clearLoginFailures).
+ * Doubles the delay with every attempt past the policy threshold (1s, 2s, 4s, ...).
+ * @param key - Attempt key
+ * @param policy - Throttle policy
+ * @returns Whether the attempt may proceed, and if not, for how long to wait
+ */
+const claimAttemptForKey = async (key: string, policy: ThrottlePolicy): Promise<LoginThrottleResult> => {
+  const now = new Date();
+
+  try {
+    await LoginAttempt.findOneAndUpdate(
+      {
+        key,
+        lockedUntil: { $not: { $gt: now } },
+        nextAttemptAt: { $not: { $gt: now } }
+      },
+      [
+        { $set: { failures: { $add: [{ $ifNull: ['$failures', 0] }, 1] } } },
+        {
+          $set: {
+            expiresAt: new Date(now.getTime() + COUNTER_TTL_MS),
+            nextAttemptAt: {
+              $cond: [
+                { $gte: ['$failures', policy.delayAfter] },
+                {
+                  $add: [now, {
+                    $multiply: [{ $min: [{ $pow: [2, { $subtract: ['$failures', policy.delayAfter] }] }, policy.maxDelaySeconds] }, 1000]
+                  }]
+                },
+                '$$REMOVE'
+              ]
+            }
+          }
+        }
+      ],
+      { upsert: true, updatePipeline: true }
+    );
+
+    return { allowed: true };
+  } catch (error: any) {
+    // The key exists but is locked or delayed (the upsert collided with it)
+    if (error.code !== 11000) {
+      throw error;
+    }
+  }
+
+  return getKeyThrottle(key);
+};
+
+/**
+ * Give back an attempt that turned out not to be a failure
+ * @param key - Attempt key
+ */
+const releaseAttemptForKey = async (key: string): Promise<void> => {
+  await LoginAttempt.updateOne({ key, failures: { $gt: 0 } }, { $inc: { failures: -1 } });
+};
+
+/**
+ * Check and count a login attempt for an account and IP
+ * Call before verifying credentials; a failure is then reported with
+ * recordLoginFailure and a completed sign-in with clearLoginFailures.
+ * @param email - Account email (may not belong to an existing user)
+ * @param ip - Client IP address
+ * @returns Whether the attempt may proceed, and if not, for how long to wait
+ */
+export const checkLoginThrottle = async (email: string, ip?: string): Promise<LoginThrottleResult> => {
+  const accountResult = await claimAttemptForKey(accountKey(email), ACCOUNT_POLICY);
+
+  if (!accountResult.allowed || !ip) {
+    return accountResult;
+  }
+
+  const ipResult = await claimAttemptForKey(ipKey(ip), IP_POLICY);
+
+  if (!ipResult.allowed) {
+    // The attempt never happened: don't hold it against the account
+    await releaseAttemptForKey(accountKey(email));
+  }
+
+  return ipResult;
+};
+
+/**
+ * Lock a key once its attempts have reached the policy limit
+ * Only one of several parallel failures takes the lock (and gets the token).
+ * @param key - Attempt key
+ * @param policy - Throttle policy
+ * @returns Unlock token if this failure locked the key, otherwise null
+ */
+const recordFailureForKey = async (key: string, policy: ThrottlePolicy): Promise<string | null> => {
+  const now = new Date();
+  const unlockToken = crypto.randomBytes(32).toString('hex');
+
+  // Lock and start counting afresh once the lock expires
+  const locked = await LoginAttempt.findOneAndUpdate(
+    { key, failures: { $gte: policy.maxFailures } },
+    {
+      $set: {
+        failures: 0,
+        lastFailureAt: now,
+        lockedUntil: new Date(now.getTime() + policy.lockoutMinutes * 60 * 1000),
+        unlockToken: hashSecret(unlockToken) // Only the hash is stored
+      },
+      $unset: { nextAttemptAt: 1 }
+    }
+  );
+
+  if (locked) {
+    return unlockToken;
+  }
+
+  await LoginAttempt.updateOne({ key }, { $set: { lastFailureAt: now } });
+
+  return null;
+};
+
+/**
+ * Record a failed password or 2FA attempt (already counted by checkLoginThrottle)
+ * Sends an unlock email when the account becomes locked.
+ * @param email - Account email (may not belong to an existing user)
+ * @param ip - Client IP address
+ * @param user - Matching user, if any (used for the unlock email)
+ */
+export const recordLoginFailure = async (email: string, ip?: string, user?: IUser | null): Promise<void> => {
+  const unlockToken = await recordFailureForKey(accountKey(email), ACCOUNT_POLICY);
+
+  if (ip) {
+    const ipLocked = await recordFailureForKey(ipKey(ip), IP_POLICY);
+    if (ipLocked) {
+      console.warn(`⚠️  IP ${ip} locked out after repeated failed logins`);
+    }
+  }
+
+  if (unlockToken) {
+    await recordAuditEvent({
+      type: 'account_locked',
+      targetUserId: user?._id.toString(),
+      metadata: { email, ipAddress: ip, lockoutMinutes: ACCOUNT_POLICY.lockoutMinutes }
+    });
+  }
+
+  if (unlockToken && user) {
+    console.warn(`⚠️  Account ${user.email} locked after repeated failed logins`);
+
+    try {
+      await sendAccountLockedEmail(user.email, unlockToken, user.name, ACCOUNT_POLICY.lockoutMinutes);
+    } catch (emailError: any) {
+      console.error('❌ Failed to send account locked email:', emailError.message);
+    }
+  }
+};
+
+/**
+ * Clear failed attempts for an account after a successful login
+ * The IP keeps its other failures; only this sign-in's attempt is given back.
+ * @param email - Account email
+ * @param ip - Client IP address
+ */
+export const clearLoginFailures = async (email: string, ip?: string): Promise<void> => {
+  await LoginAttempt.deleteOne({ key: accountKey(email) });
+
+  if (ip) {
+    await releaseAttemptForKey(ipKey(ip));
+  }
+};
+
+/**
+ * Remove a lock from an account (admin action)
+ * @param email - Account email
+ * @returns True if the account had failures or a lock
+ */
+export const unlockAccount = async (email: string): Promise<boolean> => {
+  const result = await LoginAttempt.deleteOne({ key: accountKey(email) });
+  return result.deletedCount > 0;
+};
+
+/**
+ * Remove a lock using the token from the unlock email
+ * @param token - Unlock token
+ * @returns Email of the unlocked account, or null if the token matched no lock
+ */
+export const unlockAccountWithToken = async (token: string): Promise<string | null> => {
+  const attempt = await LoginAttempt.findOneAndDelete({
+    unlockToken: hashSecret(token),
+    key: { $regex: /^account:/ }
+  });
+  return attempt ? attempt.key.substring('account:'.length) : null;
+};
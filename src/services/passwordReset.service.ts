@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+import User, { IUser } from '../models/user.model';
+import { hashSecret } from '../lib/secretHash';
+import { sendPasswordResetEmail } from '../lib/email';
+
+const RESET_LIFETIME_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Issue a password reset token and email the reset link
+ * Replaces any earlier reset token. A failed email is logged, not thrown:
+ * the user can request another link.
+ * @param user - Account to reset
+ */
+export const startPasswordReset = async (user: IUser): Promise<void> => {
+  const resetToken = crypto.randomBytes(32).toString('hex');
+
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        resetPasswordToken: hashSecret(resetToken), // Only the hash is stored (the plain token only goes out by email)
+        resetPasswordExpires: new Date(Date.now() + RESET_LIFETIME_MS)
+      }
+    }
+  );
+
+  try {
+    await sendPasswordResetEmail(user.email, resetToken, user.name);
+    console.log(`✅ Password reset email sent to ${user.email}`);
+  } catch (emailError: any) {
+    console.error('❌ Failed to send password reset email:', emailError.message);
+  }
+};
@@ -0,0 +1,248 @@
+import { Request } from 'express';
+import Session, { ISession, SessionRevokeReason } from '../models/session.model';
+import { IUser } from '../models/user.model';
+import { generateAccessToken, generateRefreshToken, decodeToken, VerifiedTokenPayload } from '../lib/jwt';
+import { hashSecret } from '../lib/secretHash';
+import { revokeAccessToken } from './tokenRevocation.service';
+
+const SESSION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000; // 7 days (matches refresh token)
+
+// Result of presenting a refresh token for rotation
+export type RotationResult =
+  | { status: 'rotated'; accessToken: string; refreshToken: string }
+  | { status: 'reuse_detected' }
+  | { status: 'invalid' };
+
+// Build the JWT payload for a session
+const buildPayload = (user: IUser, sessionId: string) => ({
+  userId: user._id.toString(),
+  email: user.email,
+  role: user.role,
+  tokenVersion: user.tokenVersion,
+  sessionId
+});
+
+/**
+ * Read the ID and expiry of a freshly issued access token (stored on the session)
+ * @param accessToken - Access token
+ * @returns Session fields for the token
+ */
+const getAccessTokenFields = (accessToken: string): { accessTokenId: string; accessTokenExpiresAt: Date } => {
+  const { jti, exp } = decodeToken(accessToken) as VerifiedTokenPayload;
+
+  return {
+    accessTokenId: jti,
+    accessTokenExpiresAt: new Date(exp * 1000)
+  };
+};
+
+/**
+ * Revoke the latest access token of revoked sessions
+ * @param sessions - Sessions as they were before revocation
+ * @param reason - Why the sessions were revoked
+ */
+const revokeSessionAccessTokens = async (
+  sessions: ISession[],
+  reason: SessionRevokeReason
+): Promise<void> => {
+  await Promise.all(
+    sessions
+      .filter((session) => session.accessTokenId && session.accessTokenExpiresAt)
+      .map((session) => revokeAccessToken({
+        jti: session.accessTokenId as string,
+        userId: session.userId.toString(),
+        expiresAt: session.accessTokenExpiresAt as Date
+      }, reason))
+  );
+};
+
+/**
+ * Extract client information used to describe a session
+ * @param req - Express request object
+ * @returns User agent and IP address of the client
+ */
+export const getClientInfo = (req: Request): { userAgent?: string; ipAddress?: string } => {
+  const userAgent = req.get('user-agent');
+
+  return {
+    userAgent: userAgent ? userAgent.substring(0, 500) : undefined,
+    ipAddress: req.ip
+  };
+};
+
+/**
+ * Create a new device session and issue tokens bound to it
+ * @param user - Authenticated user
+ * @param req - Express request object (for user agent and IP)
+ * @returns Created session with access and refresh tokens
+ */
+export const createSession = async (
+  user: IUser,
+  req: Request
+): Promise<{ session: ISession; accessToken: string; refreshToken: string }> => {
+  const session = new Session({
+    userId: user._id,
+    ...getClientInfo(req),
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + SESSION_LIFETIME_MS)
+  });
+
+  const payload = buildPayload(user, session._id.toString());
+
+  const accessToken = generateAccessToken(payload);
+  const refreshToken = generateRefreshToken(payload);
+
+  session.refreshToken = hashSecret(refreshToken); // Only the hash is stored
+  session.set(getAccessTokenFields(accessToken));
+  await session.save();
+
+  return { session, accessToken, refreshToken };
+};
+
+/**
+ * Rotate a session's refresh token
+ * Every refresh retires the presented token and issues a new one. The session
+ * is the token family: if a retired token is presented again, the session is
+ * revoked so a stolen refresh token stops working for everyone.
+ * @param sessionId - Session ID from the refresh token
+ * @param presentedToken - Refresh token sent by the client
+ * @param user - Owner of the session
+ * @param req - Express request object (for activity tracking)
+ * @returns Rotation result
+ */
+export const rotateSession = async (
+  sessionId: string,
+  presentedToken: string,
+  user: IUser,
+  req: Request
+): Promise<RotationResult> => {
+  const payload = buildPayload(user, sessionId);
+  const accessToken = generateAccessToken(payload);
+  const refreshToken = generateRefreshToken(payload);
+
+  // Atomically swap the current token so concurrent refreshes can't both succeed
+  const rotated = await Session.findOneAndUpdate(
+    {
+      _id: sessionId,
+      userId: user._id,
+      refreshToken: hashSecret(presentedToken),
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() }
+    },
+    {
+      $set: {
+        refreshToken: hashSecret(refreshToken),
+        ...getAccessTokenFields(accessToken),
+        lastUsedAt: new Date(),
+        ipAddress: req.ip,
+        expiresAt: new Date(Date.now() + SESSION_LIFETIME_MS)
+      }
+    }
+  );
+
+  if (rotated) {
+    return { status: 'rotated', accessToken, refreshToken };
+  }
+
+  // The token was validly signed for this session but is not the current one:
+  // it has already been rotated out, so somebody is replaying it
+  const session = await Session.findOne({
+    _id: sessionId,
+    userId: user._id,
+    revokedAt: { $exists: false }
+  });
+
+  if (!session) {
+    return { status: 'invalid' };
+  }
+
+  await revokeSession(sessionId, user._id.toString(), 'refresh_token_reuse');
+
+  console.warn('⚠️  Refresh token reuse detected, session revoked:', {
+    userId: user._id.toString(),
+    sessionId,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent')
+  });
+
+  return { status: 'reuse_detected' };
+};
+
+/**
+ * List active sessions for a user (most recently used first)
+ * @param userId - User ID
+ * @returns Array of sessions
+ */
+export const listActiveSessions = async (userId: string): Promise<ISession[]> => {
+  return Session.find({
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  }).sort({ lastUsedAt: -1 });
+};
+
+/**
+ * Revoke a single session
+ * The session's latest access token is revoked too, so it stops working
+ * immediately instead of at expiry.
+ * @param sessionId - Session ID
+ * @param userId - Owner of the session
+ * @param reason - Why the session was revoked (default: 'revoked')
+ * @returns True if an active session was revoked
+ */
+export const revokeSession = async (
+  sessionId: string,
+  userId: string,
+  reason: SessionRevokeReason = 'revoked'
+): Promise<boolean> => {
+  const session = await Session.findOneAndUpdate(
+    { _id: sessionId, userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason }, $unset: { refreshToken: 1 } }
+  );
+
+  if (!session) {
+    return false;
+  }
+
+  await revokeSessionAccessTokens([session], reason);
+
+  return true;
+};
+
+/**
+ * Revoke all sessions of a user, optionally keeping one (the current device)
+ * Their latest access tokens are revoked too.
+ * @param userId - User ID
+ * @param reason - Why the sessions were revoked
+ * @param exceptSessionId - Session to keep active
+ * @returns Number of sessions revoked
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> => {
+  const filter: any = { userId, revokedAt: { $exists: false } };
+
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const sessions = await Session.find(filter);
+
+  if (sessions.length === 0) {
+    return 0;
+  }
+
+  const result = await Session.updateMany(
+    { _id: { $in: sessions.map((session) => session._id) }, revokedAt: { $exists: false } },
+    {
+      $set: { revokedAt: new Date(), revokedReason: reason },
+      $unset: { refreshToken: 1 }
+    }
+  );
+
+  await revokeSessionAccessTokens(sessions, reason);
+
+  return result.modifiedCount;
+};
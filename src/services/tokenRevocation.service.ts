@@ -0,0 +1,48 @@
+import RevokedToken from '../models/revokedToken.model';
+import { SessionRevokeReason } from '../models/session.model';
+
+// Access token to revoke
+export interface RevocableToken {
+  jti: string;
+  userId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Revoke a single access token until it expires
+ * Access tokens are otherwise valid until expiry; this takes effect on the next request.
+ * @param token - Token ID, owner and expiry
+ * @param reason - Why the token was revoked
+ */
+export const revokeAccessToken = async (
+  token: RevocableToken,
+  reason: SessionRevokeReason
+): Promise<void> => {
+  // Already expired: nothing to block
+  if (token.expiresAt.getTime() <= Date.now()) {
+    return;
+  }
+
+  try {
+    await RevokedToken.updateOne(
+      { jti: token.jti },
+      { $setOnInsert: { userId: token.userId, reason, expiresAt: token.expiresAt } },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    // Revoked concurrently by another request
+    if (error.code !== 11000) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Check whether an access token has been revoked
+ * @param jti - Token ID claim
+ * @returns True if the token must be rejected
+ */
+export const isAccessTokenRevoked = async (jti: string): Promise<boolean> => {
+  const revoked = await RevokedToken.exists({ jti });
+  return revoked !== null;
+};
@@ -0,0 +1,158 @@
+import TwoFactorChallenge, { ITwoFactorChallenge, ChallengePurpose } from '../models/twoFactorChallenge.model';
+import Passkey from '../models/passkey.model';
+import { IUser } from '../models/user.model';
+import { generateTwoFactorChallengeToken, verifyTwoFactorChallengeToken } from '../lib/jwt';
+import { getTwoFactorMethods } from '../lib/twoFactor';
+import { sendEmailOtp } from './emailOtp.service';
+
+const CHALLENGE_LIFETIME_MS = 5 * 60 * 1000; // 5 minutes (matches challenge token)
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Result of claiming an attempt on a challenge
+export type ChallengeAttemptResult =
+  | { status: 'ok'; challenge: ITwoFactorChallenge }
+  | { status: 'invalid' }
+  | { status: 'too_many_attempts' };
+
+/**
+ * Create a 2FA challenge after the password step succeeded
+ * @param user - User who passed the password check
+ * @param purpose - What the challenge completes (a token for one purpose is refused for the other)
+ * @returns Signed challenge token and its lifetime in seconds
+ */
+export const createTwoFactorChallenge = async (
+  user: IUser,
+  purpose: ChallengePurpose
+): Promise<{ challengeToken: string; challengeId: string; expiresIn: number }> => {
+  const challenge = await TwoFactorChallenge.create({
+    userId: user._id,
+    purpose,
+    tokenVersion: user.tokenVersion,
+    expiresAt: new Date(Date.now() + CHALLENGE_LIFETIME_MS)
+  });
+
+  const challengeToken = generateTwoFactorChallengeToken({
+    userId: user._id.toString(),
+    challengeId: challenge._id.toString()
+  });
+
+  return { challengeToken, challengeId: challenge._id.toString(), expiresIn: CHALLENGE_LIFETIME_MS / 1000 };
+};
+
+/**
+ * Start the second step of a sign-in
+ * Creates a challenge, works out which factors the client can offer and
+ * emails a code right away when that is the user's preferred factor.
+ * @param user - User who passed the first step
+ * @returns Challenge details for the client
+ */
+export const startTwoFactorChallenge = async (user: IUser): Promise<{
+  challengeToken: string;
+  expiresIn: number;
+  methods: string[];
+  preferredMethod?: string;
+  emailCodeSent: boolean;
+}> => {
+  const { challengeToken, challengeId, expiresIn } = await createTwoFactorChallenge(user, 'two_factor');
+
+  const enrolled = getTwoFactorMethods(user);
+  const methods: string[] = [...enrolled, 'backup_code'];
+  if (await Passkey.exists({ userId: user._id })) {
+    methods.push('webauthn');
+  }
+
+  const preferredMethod = user.preferredTwoFactorMethod && methods.includes(user.preferredTwoFactorMethod)
+    ? user.preferredTwoFactorMethod
+    : enrolled[0];
+
+  let emailCodeSent = false;
+  if (preferredMethod === 'email') {
+    const sent = await sendEmailOtp(user, 'login', challengeId);
+    emailCodeSent = sent.status === 'sent';
+  }
+
+  return { challengeToken, expiresIn, methods, preferredMethod, emailCodeSent };
+};
+
+/**
+ * Look up a pending challenge without counting an attempt (e.g. to send an email code)
+ * @param challengeToken - Token returned by login
+ * @param purpose - What the caller is about to complete
+ * @returns The challenge, or null if invalid, expired, used, exhausted or for another purpose
+ */
+export const findPendingChallenge = async (
+  challengeToken: string,
+  purpose: ChallengePurpose
+): Promise<ITwoFactorChallenge | null> => {
+  const decoded = verifyTwoFactorChallengeToken(challengeToken);
+
+  if (!decoded) {
+    return null;
+  }
+
+  return TwoFactorChallenge.findOne({
+    _id: decoded.challengeId,
+    userId: decoded.userId,
+    purpose,
+    consumedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+    attempts: { $lt: MAX_CHALLENGE_ATTEMPTS }
+  });
+};
+
+/**
+ * Verify a challenge token and count one verification attempt against it
+ * @param challengeToken - Token returned by login
+ * @param purpose - What the caller is about to complete
+ * @returns The challenge if another attempt is allowed
+ */
+export const claimChallengeAttempt = async (
+  challengeToken: string,
+  purpose: ChallengePurpose
+): Promise<ChallengeAttemptResult> => {
+  const decoded = verifyTwoFactorChallengeToken(challengeToken);
+
+  if (!decoded) {
+    return { status: 'invalid' };
+  }
+
+  // Atomically count the attempt so parallel guesses can't exceed the limit
+  const challenge = await TwoFactorChallenge.findOneAndUpdate(
+    {
+      _id: decoded.challengeId,
+      userId: decoded.userId,
+      purpose,
+      consumedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+      attempts: { $lt: MAX_CHALLENGE_ATTEMPTS }
+    },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+
+  if (challenge) {
+    return { status: 'ok', challenge };
+  }
+
+  const exhausted = await TwoFactorChallenge.exists({
+    _id: decoded.challengeId,
+    purpose,
+    attempts: { $gte: MAX_CHALLENGE_ATTEMPTS }
+  });
+
+  return exhausted ? { status: 'too_many_attempts' } : { status: 'invalid' };
+};
+
+/**
+ * Mark a challenge as used so it cannot complete a second login
+ * @param challenge - Challenge to consume
+ * @returns True if this call consumed the challenge
+ */
+export const consumeChallenge = async (challenge: ITwoFactorChallenge): Promise<boolean> => {
+  const result = await TwoFactorChallenge.updateOne(
+    { _id: challenge._id, consumedAt: { $exists: false } },
+    { $set: { consumedAt: new Date() } }
+  );
+
+  return result.modifiedCount > 0;
+};
@@ -0,0 +1,307 @@
+import dotenv from 'dotenv';
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type RegistrationResponseJSON,
+  type AuthenticationResponseJSON,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON
+} from '@simplewebauthn/server';
+import Passkey, { IPasskey } from '../models/passkey.model';
+import WebAuthnChallenge, { IWebAuthnChallenge } from '../models/webauthnChallenge.model';
+import Identity from '../models/identity.model';
+import User, { IUser } from '../models/user.model';
+import { getTwoFactorMethods } from '../lib/twoFactor';
+
+dotenv.config();
+
+// Relying party configuration
+const RP_NAME = process.env.WEBAUTHN_RP_NAME || 'NodeJS Mystery';
+const RP_ID = process.env.WEBAUTHN_RP_ID || 'localhost';
+const EXPECTED_ORIGINS = (process.env.WEBAUTHN_ORIGINS || process.env.FRONTEND_URL || 'http://localhost:3000')
+  .split(',')
+  .map((origin) => origin.trim());
+const CEREMONY_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+
+// Result of a passkey authentication ceremony
+export type PasskeyAuthenticationResult =
+  | { status: 'ok'; passkey: IPasskey; userVerified: boolean }
+  | { status: 'invalid' };
+
+// Result of removing a passkey
+export type RemovePasskeyResult =
+  | { status: 'removed'; passkey: IPasskey; twoFactorDisabled: boolean }
+  | { status: 'not_found' }
+  | { status: 'last_sign_in_method' };
+
+/**
+ * Read the challenge the browser signed from clientDataJSON
+ * @param clientDataJSON - Base64URL-encoded client data
+ * @returns Challenge string, or null if it can't be parsed
+ */
+const getSignedChallenge = (clientDataJSON: string): string | null => {
+  try {
+    const clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+    return typeof clientData.challenge === 'string' ? clientData.challenge : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Take a pending ceremony challenge out of the store (each challenge is single-use)
+ * @param challenge - Challenge signed by the authenticator
+ * @param type - Ceremony type
+ * @returns Stored challenge, or null if unknown or expired
+ */
+const consumeCeremonyChallenge = async (
+  challenge: string | null,
+  type: IWebAuthnChallenge['type']
+): Promise<IWebAuthnChallenge | null> => {
+  if (!challenge) {
+    return null;
+  }
+
+  return WebAuthnChallenge.findOneAndDelete({
+    challenge,
+    type,
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+/**
+ * Start a passkey registration ceremony
+ * @param user - Authenticated user registering a passkey
+ * @returns Options for navigator.credentials.create()
+ */
+export const createRegistrationOptions = async (user: IUser): Promise<PublicKeyCredentialCreationOptionsJSON> => {
+  const existingPasskeys = await Passkey.find({ userId: user._id });
+
+  const options = await generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID: RP_ID,
+    userName: user.email,
+    userID: new TextEncoder().encode(user._id.toString()),
+    userDisplayName: user.name,
+    timeout: CEREMONY_TIMEOUT_MS,
+    attestationType: 'none',
+    // Don't let the same authenticator be registered twice
+    excludeCredentials: existingPasskeys.map((passkey) => ({
+      id: passkey.credentialId,
+      transports: passkey.transports
+    })),
+    authenticatorSelection: {
+      residentKey: 'required', // Discoverable credentials allow passwordless login
+      userVerification: 'preferred'
+    }
+  });
+
+  await WebAuthnChallenge.create({
+    challenge: options.challenge,
+    type: 'registration',
+    userId: user._id,
+    expiresAt: new Date(Date.now() + CEREMONY_TIMEOUT_MS)
+  });
+
+  return options;
+};
+
+/**
+ * Finish a passkey registration ceremony and store the credential
+ * @param user - Authenticated user registering a passkey
+ * @param response - Response from navigator.credentials.create()
+ * @param name - Display name for the passkey
+ * @returns Stored passkey, or null if the response could not be verified
+ */
+export const verifyRegistration = async (
+  user: IUser,
+  response: RegistrationResponseJSON,
+  name?: string
+): Promise<IPasskey | null> => {
+  const stored = await consumeCeremonyChallenge(
+    getSignedChallenge(response.response.clientDataJSON),
+    'registration'
+  );
+
+  if (!stored || !stored.userId || !stored.userId.equals(user._id)) {
+    return null;
+  }
+
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: stored.challenge,
+      expectedOrigin: EXPECTED_ORIGINS,
+      expectedRPID: RP_ID,
+      requireUserVerification: false
+    });
+  } catch (error: any) {
+    console.warn('Passkey registration verification failed:', error.message);
+    return null;
+  }
+
+  if (!verification.verified) {
+    return null;
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+  return Passkey.create({
+    userId: user._id,
+    credentialId: credential.id,
+    publicKey: Buffer.from(credential.publicKey),
+    counter: credential.counter,
+    transports: credential.transports,
+    name: name || 'Passkey',
+    deviceType: credentialDeviceType,
+    backedUp: credentialBackedUp
+  });
+};
+
+/**
+ * Start a passkey authentication ceremony
+ * @param userId - User completing a second factor (omit for passwordless login)
+ * @returns Options for navigator.credentials.get()
+ */
+export const createAuthenticationOptions = async (userId?: string): Promise<PublicKeyCredentialRequestOptionsJSON> => {
+  // Second factor: restrict to the user's passkeys. Passwordless: let the
+  // browser offer any discoverable credential for this site.
+  const passkeys = userId ? await Passkey.find({ userId }) : [];
+
+  const options = await generateAuthenticationOptions({
+    rpID: RP_ID,
+    timeout: CEREMONY_TIMEOUT_MS,
+    allowCredentials: passkeys.map((passkey) => ({
+      id: passkey.credentialId,
+      transports: passkey.transports
+    })),
+    userVerification: userId ? 'preferred' : 'required'
+  });
+
+  await WebAuthnChallenge.create({
+    challenge: options.challenge,
+    type: 'authentication',
+    userId,
+    expiresAt: new Date(Date.now() + CEREMONY_TIMEOUT_MS)
+  });
+
+  return options;
+};
+
+/**
+ * Finish a passkey authentication ceremony
+ * Verifies the signature and the signature counter, then records usage.
+ * @param response - Response from navigator.credentials.get()
+ * @param expectedUserId - User completing a second factor (omit for passwordless login)
+ * @returns The passkey used, or invalid
+ */
+export const verifyAuthentication = async (
+  response: AuthenticationResponseJSON,
+  expectedUserId?: string
+): Promise<PasskeyAuthenticationResult> => {
+  const stored = await consumeCeremonyChallenge(
+    getSignedChallenge(response.response.clientDataJSON),
+    'authentication'
+  );
+
+  if (!stored) {
+    return { status: 'invalid' };
+  }
+
+  // The ceremony must have been started for the same mode (and user)
+  const storedUserId = stored.userId ? stored.userId.toString() : undefined;
+  if (storedUserId !== expectedUserId) {
+    return { status: 'invalid' };
+  }
+
+  const passkey = await Passkey.findOne({ credentialId: response.id });
+
+  if (!passkey || (expectedUserId && passkey.userId.toString() !== expectedUserId)) {
+    return { status: 'invalid' };
+  }
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: stored.challenge,
+      expectedOrigin: EXPECTED_ORIGINS,
+      expectedRPID: RP_ID,
+      credential: {
+        id: passkey.credentialId,
+        publicKey: new Uint8Array(passkey.publicKey),
+        counter: passkey.counter,
+        transports: passkey.transports
+      },
+      // Passwordless login needs user verification (PIN/biometric) to count as two factors
+      requireUserVerification: !expectedUserId
+    });
+  } catch (error: any) {
+    // Includes signature counter regressions (possible cloned authenticator)
+    console.warn(`⚠️  Passkey authentication failed for credential ${passkey._id}:`, error.message);
+    return { status: 'invalid' };
+  }
+
+  if (!verification.verified) {
+    return { status: 'invalid' };
+  }
+
+  passkey.counter = verification.authenticationInfo.newCounter;
+  passkey.lastUsedAt = new Date();
+  await passkey.save();
+
+  return { status: 'ok', passkey, userVerified: verification.authenticationInfo.userVerified };
+};
+
+/**
+ * Remove a passkey
+ * The last passkey can't be removed from an account without a password or a
+ * linked provider. Removing it also turns 2FA off unless a code-based factor remains.
+ * @param userId - Owner of the passkey
+ * @param passkeyId - Passkey to remove
+ * @returns Removed passkey, or why it was not removed
+ */
+export const removePasskey = async (userId: string, passkeyId: string): Promise<RemovePasskeyResult> => {
+  const passkey = await Passkey.findOne({ _id: passkeyId, userId });
+
+  if (!passkey) {
+    return { status: 'not_found' };
+  }
+
+  const [user, otherPasskeys, hasIdentity] = await Promise.all([
+    User.findById(userId).select('+password'),
+    Passkey.countDocuments({ userId, _id: { $ne: passkey._id } }),
+    Identity.exists({ userId })
+  ]);
+
+  if (!user) {
+    return { status: 'not_found' };
+  }
+
+  if (otherPasskeys === 0 && !user.password && !hasIdentity) {
+    return { status: 'last_sign_in_method' };
+  }
+
+  await passkey.deleteOne();
+
+  let twoFactorDisabled = false;
+
+  if (otherPasskeys === 0) {
+    if (user.preferredTwoFactorMethod === 'webauthn') {
+      user.preferredTwoFactorMethod = undefined;
+    }
+
+    if (user.isTwoFactorEnabled && getTwoFactorMethods(user).length === 0) {
+      user.isTwoFactorEnabled = false;
+      user.twoFactorBackupCodes = undefined;
+      twoFactorDisabled = true;
+    }
+
+    await user.save();
+  }
+
+  return { status: 'removed', passkey, twoFactorDisabled };
+};
@@ -0,0 +1,86 @@
+import bcrypt from 'bcryptjs';
+import { Request, Response } from 'express';
+import User from '../../src/models/user.model';
+import { login } from '../../src/controllers/auth.controller';
+import { comparePassword, hashPassword } from '../../src/lib/password';
+import { checkLoginThrottle } from '../../src/services/lockout.service';
+import { createSession } from '../../src/services/session.service';
+import { identifySignInDevice } from '../../src/services/knownDevice.service';
+
+jest.mock('../../src/models/user.model', () =>
+  require('../support/memoryModel').createMemoryModel({ unique: ['email'] })
+);
+jest.mock('../../src/services/lockout.service');
+jest.mock('../../src/services/session.service');
+jest.mock('../../src/services/knownDevice.service');
+jest.mock('../../src/services/audit.service');
+
+const UserModel = User as any;
+
+const PASSWORD = 'Tulip-Ferry-93';
+
+const createResponse = () => {
+  const res: any = {};
+  res.cookie = jest.fn(() => res);
+  res.set = jest.fn(() => res);
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res as Response & { status: jest.Mock };
+};
+
+const sendLogin = async (password: string) => {
+  const res = createResponse();
+  const req = { body: { email: 'jane@example.com', password }, ip: '203.0.113.1', get: () => 'jest' } as unknown as Request;
+
+  await login(req, res);
+
+  return res.status.mock.calls[0][0] as number;
+};
+
+const storedHash = async (): Promise<string> => (await UserModel.findOne({ email: 'jane@example.com' })).password;
+
+describe('login password rehash', () => {
+  const createUser = async (password: string) =>
+    UserModel.create({
+      email: 'jane@example.com',
+      name: 'Jane',
+      role: 'user',
+      password,
+      isEmailVerified: true,
+      isTwoFactorEnabled: false
+    });
+
+  beforeEach(() => {
+    UserModel.reset();
+    (checkLoginThrottle as jest.Mock).mockResolvedValue({ allowed: true });
+    (identifySignInDevice as jest.Mock).mockResolvedValue({ known: true, deviceToken: 'device-token' });
+    (createSession as jest.Mock).mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' });
+  });
+
+  it('replaces a legacy bcrypt hash with scrypt on a successful login', async () => {
+    const legacy = await bcrypt.hash(PASSWORD, 4);
+    await createUser(legacy);
+
+    expect(await sendLogin(PASSWORD)).toBe(200);
+
+    const upgraded = await storedHash();
+    expect(upgraded).toMatch(/^\$scrypt\$/);
+    expect(await comparePassword(PASSWORD, upgraded)).toBe(true);
+  });
+
+  it('keeps a current scrypt hash', async () => {
+    const current = await hashPassword(PASSWORD);
+    await createUser(current);
+
+    expect(await sendLogin(PASSWORD)).toBe(200);
+    expect(await storedHash()).toBe(current);
+  });
+
+  it('does not touch the hash when the password is wrong', async () => {
+    const legacy = await bcrypt.hash(PASSWORD, 4);
+    await createUser(legacy);
+
+    expect(await sendLogin('Wrong-Ferry-93')).toBe(401);
+    expect(await storedHash()).toBe(legacy);
+  });
+});
@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import User from '../../src/models/user.model';
+import AuditEvent from '../../src/models/auditEvent.model';
+import RevokedToken from '../../src/models/revokedToken.model';
+import { impersonateUser, endImpersonation } from '../../src/controllers/impersonation.controller';
+import { authenticate } from '../../src/middleware/auth';
+
+jest.mock('../../src/models/user.model', () => require('../support/memoryModel').createMemoryModel());
+jest.mock('../../src/models/auditEvent.model', () => require('../support/memoryModel').createMemoryModel());
+jest.mock('../../src/models/revokedToken.model', () =>
+  require('../support/memoryModel').createMemoryModel({ unique: ['jti'] })
+);
+
+const UserModel = User as any;
+const AuditEventModel = AuditEvent as any;
+const RevokedTokenModel = RevokedToken as any;
+
+const createResponse = () => {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn(() => res);
+  return res as Response & EventEmitter & { status: jest.Mock; json: jest.Mock };
+};
+
+const createRequest = (fields: Record<string, unknown>) =>
+  ({ ip: '203.0.113.1', get: () => 'jest', headers: {}, cookies: {}, params: {}, body: {}, ...fields }) as unknown as Request;
+
+// Wait for the fire-and-forget audit writes
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('impersonation audit trail', () => {
+  let admin: any;
+  let target: any;
+
+  const adminRequest = (fields: Record<string, unknown>) =>
+    createRequest({ user: { id: admin._id.toString(), email: admin.email, role: 'admin' }, ...fields });
+
+  const startImpersonation = async () => {
+    const res = createResponse();
+    await impersonateUser(
+      adminRequest({ params: { id: target._id.toString() }, body: { reason: 'Support ticket #4321' } }),
+      res
+    );
+    return { res, token: res.json.mock.calls[0][0].accessToken as string };
+  };
+
+  // Make a request with the impersonation token and finish the response with a status
+  const actAs = async (token: string, statusCode: number) => {
+    const req = createRequest({
+      method: 'PATCH',
+      originalUrl: '/api/tasks/abc?x=1',
+      headers: { authorization: `Bearer ${token}` }
+    });
+    const res = createResponse();
+    const next = jest.fn();
+
+    await authenticate(req, res, next);
+
+    if (next.mock.calls.length > 0) {
+      res.status(statusCode);
+      res.emit('finish');
+    }
+
+    await flush();
+    return { req, res, passed: next.mock.calls.length > 0 };
+  };
+
+  const events = (type: string) => AuditEventModel.documents.filter((event: any) => event.type === type);
+
+  beforeEach(async () => {
+    UserModel.reset();
+    AuditEventModel.reset();
+    RevokedTokenModel.reset();
+
+    admin = await UserModel.create({ email: 'admin@example.com', role: 'admin', tokenVersion: 0, isEmailVerified: true });
+    target = await UserModel.create({ email: 'jane@example.com', role: 'user', tokenVersion: 0, isEmailVerified: true });
+  });
+
+  it('records who started an impersonation, for whom and why', async () => {
+    const { res } = await startImpersonation();
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(events('impersonation_started')).toEqual([
+      expect.objectContaining({
+        outcome: 'success',
+        actorId: admin._id.toString(),
+        targetUserId: target._id.toString(),
+        metadata: expect.objectContaining({ reason: 'Support ticket #4321', tokenId: expect.any(String) })
+      })
+    ]);
+  });
+
+  it('records every request made while impersonating against the admin, with its outcome', async () => {
+    const { token } = await startImpersonation();
+
+    const { req, passed } = await actAs(token, 200);
+    await actAs(token, 404);
+
+    expect(passed).toBe(true);
+    expect(req.user).toMatchObject({ id: target._id.toString(), impersonatorId: admin._id.toString() });
+
+    const requests = events('impersonation_request');
+    expect(requests).toHaveLength(2);
+    expect(requests[0]).toMatchObject({
+      outcome: 'success',
+      actorId: admin._id.toString(),
+      targetUserId: target._id.toString(),
+      metadata: { method: 'PATCH', path: '/api/tasks/abc', statusCode: 200 }
+    });
+    expect(requests[1]).toMatchObject({ outcome: 'failure', metadata: { statusCode: 404 } });
+
+    // The same token ties the requests to the impersonation that issued it
+    const [started] = events('impersonation_started');
+    expect(requests[0].metadata.tokenId).toBe(started.metadata.tokenId);
+  });
+
+  it('records the stop and rejects the token afterwards', async () => {
+    const { token } = await startImpersonation();
+
+    const res = createResponse();
+    await endImpersonation(adminRequest({ body: { token } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(events('impersonation_stopped')).toEqual([
+      expect.objectContaining({
+        actorId: admin._id.toString(),
+        targetUserId: target._id.toString(),
+        metadata: expect.objectContaining({ startedBy: admin._id.toString() })
+      })
+    ]);
+
+    const { passed, res: rejected } = await actAs(token, 200);
+    expect(passed).toBe(false);
+    expect(rejected.status).toHaveBeenCalledWith(401);
+    expect(events('impersonation_request')).toHaveLength(0);
+  });
+
+  it('stops honouring the token once the admin loses the admin role', async () => {
+    const { token } = await startImpersonation();
+    await UserModel.updateOne({ _id: admin._id }, { $set: { role: 'user' } });
+
+    const { passed, res } = await actAs(token, 200);
+
+    expect(passed).toBe(false);
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('refuses to impersonate another admin and records nothing', async () => {
+    const otherAdmin = await UserModel.create({
+      email: 'root@example.com',
+      role: 'admin',
+      tokenVersion: 0,
+      isEmailVerified: true
+    });
+
+    const res = createResponse();
+    await impersonateUser(
+      adminRequest({ params: { id: otherAdmin._id.toString() }, body: { reason: 'Support ticket #4321' } }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(AuditEventModel.documents).toHaveLength(0);
+  });
+});
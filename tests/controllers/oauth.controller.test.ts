@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request, Response } from 'express';
+import { IUser } from '../../src/models/user.model';
+import { startOAuth, oauthCallback } from '../../src/controllers/oauth.controller';
+import { signInWithOAuth } from '../../src/services/identity.service';
+import { createExchangeCode } from '../../src/services/exchangeCode.service';
+
+jest.mock('../../src/config/oauth', () => {
+  const provider = {
+    name: 'testidp',
+    displayName: 'Test IdP',
+    type: 'oidc',
+    clientId: 'test-client',
+    clientSecret: 'test-secret',
+    redirectUri: 'http://localhost:5000/api/auth/oauth/testidp/callback',
+    scopes: ['openid', 'email'],
+    discoveryUrl: 'https://idp.example.com/.well-known/openid-configuration'
+  };
+
+  return {
+    getOAuthProvider: (name: string) => (name === provider.name ? provider : undefined),
+    listOAuthProviders: () => [provider]
+  };
+});
+jest.mock('../../src/services/identity.service');
+jest.mock('../../src/services/exchangeCode.service');
+
+const ISSUER = 'https://idp.example.com';
+const FRONTEND_URL = 'http://localhost:3000';
+
+// Minimal OpenID provider: issues codes bound to a PKCE challenge and nonce
+const createIdentityProvider = () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, { codeChallenge: string; nonce: string }>();
+
+  const idp = {
+    nonceOverride: undefined as string | undefined, // Issue ID tokens with this nonce instead
+
+    // The user consents: returns the code the provider redirects back with
+    authorize: (authorizationUrl: URL): string => {
+      const code = crypto.randomBytes(16).toString('hex');
+      codes.set(code, {
+        codeChallenge: authorizationUrl.searchParams.get('code_challenge') as string,
+        nonce: authorizationUrl.searchParams.get('nonce') as string
+      });
+      return code;
+    },
+
+    handle: (url: string, body?: string): { status: number; json: unknown } => {
+      if (url === `${ISSUER}/.well-known/openid-configuration`) {
+        return {
+          status: 200,
+          json: {
+            issuer: ISSUER,
+            authorization_endpoint: `${ISSUER}/authorize`,
+            token_endpoint: `${ISSUER}/token`,
+            jwks_uri: `${ISSUER}/jwks`
+          }
+        };
+      }
+
+      if (url === `${ISSUER}/jwks`) {
+        return { status: 200, json: { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key' }] } };
+      }
+
+      if (url === `${ISSUER}/token`) {
+        const params = new URLSearchParams(body);
+        const grant = codes.get(params.get('code') as string);
+        const verifier = params.get('code_verifier') || '';
+        const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+        if (!grant || grant.codeChallenge !== challenge) {
+          return { status: 400, json: { error: 'invalid_grant' } };
+        }
+
+        codes.delete(params.get('code') as string);
+
+        const idToken = jwt.sign(
+          { sub: 'idp-user-1', email: 'Jane@Example.com', email_verified: true, nonce: idp.nonceOverride ?? grant.nonce },
+          privateKey,
+          { algorithm: 'RS256', keyid: 'test-key', audience: 'test-client', issuer: ISSUER, expiresIn: '5m' }
+        );
+
+        return { status: 200, json: { access_token: 'idp-access-token', id_token: idToken } };
+      }
+
+      return { status: 404, json: {} };
+    }
+  };
+
+  return idp;
+};
+
+const createResponse = () => {
+  const res: any = { cookies: {} as Record<string, string> };
+  res.cookie = jest.fn((name: string, value: string) => {
+    res.cookies[name] = value;
+    return res;
+  });
+  res.clearCookie = jest.fn(() => res);
+  res.redirect = jest.fn(() => res);
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res as Response & { cookies: Record<string, string>; redirect: jest.Mock };
+};
+
+describe('OAuth sign-in', () => {
+  // One provider for the whole run: its discovery document and keys are cached
+  const idp = createIdentityProvider();
+  let fetchMock: jest.Mock;
+  const user = { _id: 'user-1', email: 'jane@example.com' } as unknown as IUser;
+
+  // Start sign-in in a browser and consent at the provider
+  const startSignIn = async () => {
+    const res = createResponse();
+    await startOAuth({ params: { provider: 'testidp' } } as unknown as Request, res);
+
+    const authorizationUrl = new URL(res.redirect.mock.calls[0][0]);
+
+    return {
+      authorizationUrl,
+      stateCookie: res.cookies.oauthState,
+      state: authorizationUrl.searchParams.get('state') as string,
+      code: idp.authorize(authorizationUrl)
+    };
+  };
+
+  // The provider redirects the browser back to the callback
+  const finishSignIn = async (callback: { stateCookie?: string; state: string; code: string }) => {
+    const res = createResponse();
+    const req = {
+      params: { provider: 'testidp' },
+      query: { code: callback.code, state: callback.state },
+      cookies: callback.stateCookie ? { oauthState: callback.stateCookie } : {}
+    } as unknown as Request;
+
+    await oauthCallback(req, res);
+
+    return { res, location: res.redirect.mock.calls[0][0] as string };
+  };
+
+  const tokenRequests = () => fetchMock.mock.calls.filter(([url]) => url === `${ISSUER}/token`);
+
+  beforeAll(() => {
+    process.env.FRONTEND_URL = FRONTEND_URL;
+  });
+
+  beforeEach(() => {
+    idp.nonceOverride = undefined;
+    fetchMock = jest.fn(async (url: string, init: RequestInit = {}) => {
+      const { status, json } = idp.handle(url, init.body as string | undefined);
+      return new Response(JSON.stringify(json), { status, headers: { 'Content-Type': 'application/json' } });
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    (signInWithOAuth as jest.Mock).mockResolvedValue({ status: 'ok', user, created: false });
+    (createExchangeCode as jest.Mock).mockResolvedValue('exchange-code');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('sends a PKCE challenge and nonce, then signs in with a matching callback', async () => {
+    const started = await startSignIn();
+
+    expect(started.authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(started.authorizationUrl.searchParams.get('nonce')).toBeTruthy();
+    // The verifier stays server-side
+    expect(started.authorizationUrl.searchParams.get('code_verifier')).toBeNull();
+
+    const { location } = await finishSignIn(started);
+
+    expect(location).toBe(`${FRONTEND_URL}/auth/callback?code=exchange-code`);
+    expect(signInWithOAuth).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'testidp' }),
+      expect.objectContaining({ providerUserId: 'idp-user-1', email: 'jane@example.com', emailVerified: true })
+    );
+  });
+
+  it('rejects a state that does not match the state cookie', async () => {
+    const started = await startSignIn();
+
+    const { location } = await finishSignIn({ ...started, state: 'forged-state' });
+
+    expect(location).toMatch(`${FRONTEND_URL}/auth/error?`);
+    expect(tokenRequests()).toHaveLength(0);
+    expect(signInWithOAuth).not.toHaveBeenCalled();
+  });
+
+  it('rejects a callback without the state cookie (login CSRF)', async () => {
+    const started = await startSignIn();
+
+    const { location } = await finishSignIn({ ...started, stateCookie: undefined });
+
+    expect(location).toMatch(`${FRONTEND_URL}/auth/error?`);
+    expect(tokenRequests()).toHaveLength(0);
+  });
+
+  it('rejects a code issued for another authorization request (PKCE)', async () => {
+    // A code intercepted from the victim's flow, replayed in the attacker's own browser session
+    const victim = await startSignIn();
+    const attacker = await startSignIn();
+
+    const { location } = await finishSignIn({ ...attacker, code: victim.code });
+
+    expect(location).toMatch(`${FRONTEND_URL}/auth/error?`);
+    expect(tokenRequests()).toHaveLength(1);
+    expect(signInWithOAuth).not.toHaveBeenCalled();
+  });
+
+  it('rejects an ID token whose nonce does not match the authorization request', async () => {
+    const started = await startSignIn();
+    idp.nonceOverride = 'nonce-from-another-request';
+
+    const { location } = await finishSignIn(started);
+
+    expect(location).toMatch(`${FRONTEND_URL}/auth/error?`);
+    expect(signInWithOAuth).not.toHaveBeenCalled();
+  });
+
+  it('keeps the link token out of the URL when an account has to be linked', async () => {
+    (signInWithOAuth as jest.Mock).mockResolvedValue({ status: 'link_required', linkToken: 'secret-link-token' });
+
+    const { res, location } = await finishSignIn(await startSignIn());
+
+    expect(location).toBe(`${FRONTEND_URL}/auth/link-account?provider=testidp`);
+    expect(res.cookies.oauthLink).toBe('secret-link-token');
+  });
+});
@@ -0,0 +1,79 @@
+import bcrypt from 'bcryptjs';
+import { hashPassword, comparePassword, needsRehash } from '../../src/lib/password';
+
+// Load the module with other cost settings (they are read at import)
+const loadWithEnv = (env: Record<string, string>): typeof import('../../src/lib/password') => {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+
+  try {
+    let loaded: typeof import('../../src/lib/password') | undefined;
+    jest.isolateModules(() => {
+      loaded = require('../../src/lib/password');
+    });
+    return loaded as typeof import('../../src/lib/password');
+  } finally {
+    process.env = saved;
+  }
+};
+
+describe('password hashing', () => {
+  it('hashes with versioned scrypt and a random salt', async () => {
+    const first = await hashPassword('Tulip-Ferry-93');
+    const second = await hashPassword('Tulip-Ferry-93');
+
+    expect(first).toMatch(/^\$scrypt\$v=1\$ln=15,r=8,p=1\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/);
+    expect(second).not.toBe(first);
+  });
+
+  it('verifies the right password and rejects a wrong one', async () => {
+    const hash = await hashPassword('Tulip-Ferry-93');
+
+    expect(await comparePassword('Tulip-Ferry-93', hash)).toBe(true);
+    expect(await comparePassword('Tulip-Ferry-94', hash)).toBe(false);
+  });
+
+  it('treats differently composed Unicode forms as the same password', async () => {
+    const hash = await hashPassword('Caf\u00e9-Ferry-93'); // Precomposed é
+
+    expect(await comparePassword('Cafe\u0301-Ferry-93', hash)).toBe(true); // e followed by a combining accent
+  });
+
+  it('still verifies legacy bcrypt hashes', async () => {
+    const legacy = await bcrypt.hash('Tulip-Ferry-93', 4);
+
+    expect(await comparePassword('Tulip-Ferry-93', legacy)).toBe(true);
+    expect(await comparePassword('Tulip-Ferry-94', legacy)).toBe(false);
+  });
+
+  it('rejects hashes it does not understand', async () => {
+    expect(await comparePassword('Tulip-Ferry-93', 'plain-text')).toBe(false);
+    expect(await comparePassword('Tulip-Ferry-93', '$scrypt$v=2$ln=15,r=8,p=1$c2FsdA$a2V5')).toBe(false);
+  });
+});
+
+describe('needsRehash', () => {
+  it('keeps hashes made with the current settings', async () => {
+    expect(needsRehash(await hashPassword('Tulip-Ferry-93'))).toBe(false);
+  });
+
+  it('upgrades bcrypt hashes to scrypt', async () => {
+    expect(needsRehash(await bcrypt.hash('Tulip-Ferry-93', 4))).toBe(true);
+  });
+
+  it('upgrades scrypt hashes made with a lower cost', async () => {
+    const weaker = loadWithEnv({ PASSWORD_SCRYPT_LOG_N: '14' });
+    const hash = await weaker.hashPassword('Tulip-Ferry-93');
+
+    expect(hash).toContain('$ln=14,');
+    expect(needsRehash(hash)).toBe(true);
+    expect(await comparePassword('Tulip-Ferry-93', hash)).toBe(true);
+  });
+
+  it('keeps bcrypt hashes at the configured rounds when bcrypt is selected', async () => {
+    const withBcrypt = loadWithEnv({ PASSWORD_HASH_ALGORITHM: 'bcrypt', PASSWORD_BCRYPT_ROUNDS: '4' });
+
+    expect(withBcrypt.needsRehash(await bcrypt.hash('Tulip-Ferry-93', 4))).toBe(false);
+    expect(withBcrypt.needsRehash(await hashPassword('Tulip-Ferry-93'))).toBe(true);
+  });
+});
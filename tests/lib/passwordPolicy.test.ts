@@ -0,0 +1,102 @@
+import {
+  validatePassword,
+  isBreachedPassword,
+  estimatePasswordEntropy,
+  isPasswordReused,
+  addToPasswordHistory
+} from '../../src/lib/passwordPolicy';
+import { hashPassword } from '../../src/lib/password';
+
+const STRONG_PASSWORD = 'Tulip-Ferry-93-Quartz';
+
+describe('password policy', () => {
+  it('accepts a long password with several character classes', async () => {
+    expect(await validatePassword(STRONG_PASSWORD, { name: 'Jane Doe', email: 'jane@example.com' })).toEqual({
+      valid: true,
+      errors: []
+    });
+  });
+
+  it('rejects short passwords', async () => {
+    const result = await validatePassword('Ab1!xyz');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Password must be at least 10 characters');
+  });
+
+  it('rejects passwords over the maximum length', async () => {
+    const result = await validatePassword(`${STRONG_PASSWORD}${'x'.repeat(128)}`);
+
+    expect(result.errors).toContain('Password cannot exceed 128 characters');
+  });
+
+  it('requires three character classes', async () => {
+    const result = await validatePassword('tulipferryquartzmoon');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain(
+      'Password must use at least 3 of: lowercase letters, uppercase letters, numbers and symbols'
+    );
+  });
+
+  it('rejects repeated characters and sequences as too easy to guess', async () => {
+    const result = await validatePassword('Aaaaaaaaaaaa1!');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Password is too easy to guess. Avoid repeated characters and sequences, or make it longer.');
+  });
+
+  it('gives repeats and sequences no entropy', () => {
+    expect(estimatePasswordEntropy('aaaaaaaa')).toBe(estimatePasswordEntropy('a'));
+    expect(estimatePasswordEntropy('abcdefgh')).toBe(estimatePasswordEntropy('a'));
+    expect(estimatePasswordEntropy('aqzmwx')).toBeGreaterThan(estimatePasswordEntropy('abcdef'));
+  });
+
+  it('rejects passwords containing the name or email', async () => {
+    const context = { name: 'Jane Doe', email: 'jane.doe@acme.com' };
+
+    expect((await validatePassword('Jane-Quartz-93!', context)).errors).toContain(
+      'Password must not contain your name or email address'
+    );
+    expect((await validatePassword('Tulip-Acme-93!x', context)).errors).toContain(
+      'Password must not contain your name or email address'
+    );
+  });
+});
+
+describe('breached password check', () => {
+  it('finds passwords from the bundled list', async () => {
+    expect(await isBreachedPassword('Password123!')).toBe(true);
+    expect(await isBreachedPassword('qwertyuiop')).toBe(true);
+  });
+
+  it('does not flag an unlisted password', async () => {
+    expect(await isBreachedPassword(STRONG_PASSWORD)).toBe(false);
+  });
+
+  it('rejects a breached password that passes every other rule', async () => {
+    const result = await validatePassword('Password123!');
+
+    expect(result).toEqual({
+      valid: false,
+      errors: ['This password has appeared in a data breach. Please choose a different password.']
+    });
+  });
+});
+
+describe('password history', () => {
+  it('detects reuse of the current or a recent password', async () => {
+    const current = await hashPassword('Current-Pass-42');
+    const previous = await hashPassword(STRONG_PASSWORD);
+
+    expect(await isPasswordReused(STRONG_PASSWORD, [current, previous])).toBe(true);
+    expect(await isPasswordReused('Brand-New-Pass-77', [current, previous])).toBe(false);
+  });
+
+  it('keeps the five most recent hashes', () => {
+    const history = ['h5', 'h4', 'h3', 'h2', 'h1'];
+
+    expect(addToPasswordHistory(history, 'h6')).toEqual(['h6', 'h5', 'h4', 'h3', 'h2']);
+    expect(addToPasswordHistory(undefined, 'h1')).toEqual(['h1']);
+  });
+});
@@ -0,0 +1,85 @@
+import RateLimit from '../../src/models/rateLimit.model';
+import { RateLimitState, RateLimitStore, createMemoryStore, createMongoStore } from '../../src/lib/rateLimitStore';
+
+jest.mock('../../src/models/rateLimit.model', () =>
+  require('../support/memoryModel').createMemoryModel({ unique: ['key'] })
+);
+
+const RateLimitModel = RateLimit as any;
+
+// Count one request: the state is a plain counter
+const increment = (state: RateLimitState | null) => {
+  const count = (state ? state.count : 0) + 1;
+  return { count, state: { count } };
+};
+
+describe.each([
+  ['memory', () => createMemoryStore()],
+  ['mongo', () => createMongoStore()]
+] as [string, () => RateLimitStore][])('%s rate limit store', (_name, createStore) => {
+  let store: RateLimitStore;
+
+  beforeEach(() => {
+    RateLimitModel.reset();
+    store = createStore();
+  });
+
+  it('counts every update of a key', async () => {
+    for (let request = 1; request <= 5; request++) {
+      expect(await store.update('login:ip:203.0.113.1', increment, 60000)).toEqual({
+        count: request,
+        state: { count: request }
+      });
+    }
+  });
+
+  it('counts keys separately', async () => {
+    await store.update('login:ip:203.0.113.1', increment, 60000);
+    await store.update('login:ip:203.0.113.1', increment, 60000);
+
+    expect((await store.update('login:ip:203.0.113.2', increment, 60000))?.count).toBe(1);
+  });
+
+  it('counts parallel updates of one key without losing any', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => store.update('login:ip:203.0.113.1', increment, 60000))
+    );
+
+    expect(results.map((result) => result?.count).sort()).toEqual([1, 2, 3, 4, 5]);
+    expect((await store.update('login:ip:203.0.113.1', increment, 60000))?.count).toBe(6);
+  });
+
+  it('starts counting afresh once the state has expired', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'] });
+
+    try {
+      await store.update('login:ip:203.0.113.1', increment, 1000);
+      await store.update('login:ip:203.0.113.1', increment, 1000);
+
+      jest.advanceTimersByTime(1001);
+
+      expect((await store.update('login:ip:203.0.113.1', increment, 1000))?.count).toBe(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('mongo rate limit store', () => {
+  beforeEach(() => {
+    RateLimitModel.reset();
+  });
+
+  it('gives up with null when the key keeps changing underneath', async () => {
+    const store = createMongoStore();
+    await store.update('login:ip:203.0.113.1', increment, 60000);
+
+    // Another process writes between every read and write
+    const result = await store.update('login:ip:203.0.113.1', (state) => {
+      RateLimitModel.documents[0].version += 1;
+      return increment(state);
+    }, 60000);
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import { csrfProtection } from '../../src/middleware/csrf';
+import { generateCsrfToken } from '../../src/lib/csrf';
+
+interface TestRequest {
+  method?: string;
+  cookies?: Record<string, string>;
+  headers?: Record<string, string>;
+}
+
+// Run one request through the middleware
+const send = ({ method = 'POST', cookies = {}, headers = {} }: TestRequest) => {
+  const req = {
+    method,
+    cookies,
+    headers,
+    get: (name: string) => headers[name.toLowerCase()]
+  } as unknown as Request;
+
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+
+  const next = jest.fn();
+  csrfProtection(req, res as Response, next);
+
+  return { res, passed: next.mock.calls.length === 1 };
+};
+
+describe('CSRF protection', () => {
+  const token = generateCsrfToken();
+  const authCookies = { accessToken: 'access', refreshToken: 'refresh' };
+
+  it('accepts a cookie-authenticated request that repeats the cookie in the header', () => {
+    const { passed } = send({
+      cookies: { ...authCookies, csrfToken: token },
+      headers: { 'x-csrf-token': token }
+    });
+
+    expect(passed).toBe(true);
+  });
+
+  it('rejects a cookie-authenticated request without the header', () => {
+    const { res, passed } = send({ cookies: { ...authCookies, csrfToken: token } });
+
+    expect(passed).toBe(false);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'CSRF_TOKEN_INVALID' }));
+  });
+
+  it('rejects a header that does not match the cookie', () => {
+    const { passed } = send({
+      cookies: { ...authCookies, csrfToken: token },
+      headers: { 'x-csrf-token': generateCsrfToken() }
+    });
+
+    expect(passed).toBe(false);
+  });
+
+  it('rejects a matching cookie and header the server did not issue', () => {
+    // A sibling subdomain can plant the cookie, but can't sign it
+    const forged = 'attacker-nonce.attacker-signature';
+
+    const { passed } = send({
+      cookies: { ...authCookies, csrfToken: forged },
+      headers: { 'x-csrf-token': forged }
+    });
+
+    expect(passed).toBe(false);
+  });
+
+  it('rejects a tampered nonce', () => {
+    const [, signature] = token.split('.');
+    const tampered = `other-nonce.${signature}`;
+
+    const { passed } = send({
+      cookies: { ...authCookies, csrfToken: tampered },
+      headers: { 'x-csrf-token': tampered }
+    });
+
+    expect(passed).toBe(false);
+  });
+
+  it('rejects a header without the cookie', () => {
+    const { passed } = send({ cookies: authCookies, headers: { 'x-csrf-token': token } });
+
+    expect(passed).toBe(false);
+  });
+
+  it('does not check safe methods', () => {
+    expect(send({ method: 'GET', cookies: authCookies }).passed).toBe(true);
+    expect(send({ method: 'HEAD', cookies: authCookies }).passed).toBe(true);
+    expect(send({ method: 'OPTIONS', cookies: authCookies }).passed).toBe(true);
+  });
+
+  it('does not check requests authenticated by an Authorization header or not at all', () => {
+    expect(send({ cookies: authCookies, headers: { authorization: 'Bearer token' } }).passed).toBe(true);
+    expect(send({}).passed).toBe(true);
+  });
+});
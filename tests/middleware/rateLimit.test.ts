@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import RateLimit from '../../src/models/rateLimit.model';
+import { rateLimit } from '../../src/middleware/rateLimit';
+import { createMongoStore } from '../../src/lib/rateLimitStore';
+
+jest.mock('../../src/models/rateLimit.model', () =>
+  require('../support/memoryModel').createMemoryModel({ unique: ['key'] })
+);
+
+const RateLimitModel = RateLimit as any;
+
+const createRequest = (ip: string) => ({ ip, method: 'POST', baseUrl: '/api/auth', path: '/login' }) as unknown as Request;
+
+const createResponse = () => {
+  const res: any = { headers: {} as Record<string, string> };
+  res.set = jest.fn((name: string, value: string) => {
+    res.headers[name] = value;
+    return res;
+  });
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res as Response & { headers: Record<string, string> };
+};
+
+// Run one request through the middleware
+const send = async (middleware: ReturnType<typeof rateLimit>, ip = '203.0.113.1') => {
+  const res = createResponse();
+  const next = jest.fn();
+  await middleware(createRequest(ip), res, next);
+  return { res, passed: next.mock.calls.length === 1 };
+};
+
+describe.each(['sliding-window', 'token-bucket'] as const)('rate limit middleware (%s)', (strategy) => {
+  beforeEach(() => {
+    RateLimitModel.reset();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'] });
+    jest.setSystemTime(new Date('2026-01-01T00:00:10Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createLimiter = () =>
+    rateLimit({ name: 'login', strategy, limit: 3, windowMs: 60000, store: createMongoStore() });
+
+  it('lets requests through up to the limit, then rejects with 429', async () => {
+    const limiter = createLimiter();
+
+    for (let request = 0; request < 3; request++) {
+      expect((await send(limiter)).passed).toBe(true);
+    }
+
+    const { res, passed } = await send(limiter);
+
+    expect(passed).toBe(false);
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.headers['RateLimit-Remaining']).toBe('0');
+    expect(Number(res.headers['Retry-After'])).toBeGreaterThan(0);
+  });
+
+  it('counts each client separately', async () => {
+    const limiter = createLimiter();
+
+    for (let request = 0; request < 3; request++) {
+      await send(limiter, '203.0.113.1');
+    }
+
+    expect((await send(limiter, '203.0.113.2')).passed).toBe(true);
+  });
+
+  it('shares the count between limiter instances using the same store', async () => {
+    // Two processes behind a load balancer
+    const first = createLimiter();
+    const second = createLimiter();
+
+    await send(first);
+    await send(second);
+    await send(first);
+
+    expect((await send(second)).passed).toBe(false);
+  });
+
+  it('allows requests again once the window has passed', async () => {
+    const limiter = createLimiter();
+
+    for (let request = 0; request < 3; request++) {
+      await send(limiter);
+    }
+
+    jest.advanceTimersByTime(2 * 60000);
+
+    expect((await send(limiter)).passed).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+import mongoose from 'mongoose';
+import LoginAttempt from '../../src/models/loginAttempt.model';
+import AuditEvent from '../../src/models/auditEvent.model';
+import { IUser } from '../../src/models/user.model';
+import { sendAccountLockedEmail } from '../../src/lib/email';
+import {
+  checkLoginThrottle,
+  recordLoginFailure,
+  clearLoginFailures,
+  unlockAccountWithToken
+} from '../../src/services/lockout.service';
+
+jest.mock('../../src/models/loginAttempt.model', () =>
+  require('../support/memoryModel').createMemoryModel({ unique: ['key'] })
+);
+jest.mock('../../src/models/auditEvent.model', () => require('../support/memoryModel').createMemoryModel());
+jest.mock('../../src/lib/email');
+
+const LoginAttemptModel = LoginAttempt as any;
+const AuditEventModel = AuditEvent as any;
+
+const email = 'jane@example.com';
+const user = { _id: new mongoose.Types.ObjectId(), email, name: 'Jane' } as unknown as IUser;
+
+// One wrong password: the attempt is counted up front and reported as a failure
+const failLogin = async (ip?: string) => {
+  const result = await checkLoginThrottle(email, ip);
+  if (result.allowed) {
+    await recordLoginFailure(email, ip, user);
+  }
+  return result;
+};
+
+const accountFailures = async (address: string = email) =>
+  (await LoginAttemptModel.findOne({ key: `account:${address}` }))?.failures ?? 0;
+
+describe('login lockout', () => {
+  beforeEach(() => {
+    LoginAttemptModel.reset();
+    AuditEventModel.reset();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'] });
+    jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows the first attempts without a delay', async () => {
+    expect(await failLogin()).toEqual({ allowed: true });
+    expect(await failLogin()).toEqual({ allowed: true });
+    expect(await accountFailures()).toBe(2);
+  });
+
+  it('doubles the delay between attempts after three failures, up to 30 seconds', async () => {
+    await failLogin();
+    await failLogin();
+
+    const delays: number[] = [];
+
+    for (let attempt = 3; attempt <= 9; attempt++) {
+      expect(await failLogin()).toEqual({ allowed: true });
+
+      // Trying again straight away is refused (and not counted)
+      const refused = await checkLoginThrottle(email);
+      if (refused.allowed) {
+        throw new Error(`attempt ${attempt + 1} was not delayed`);
+      }
+
+      expect(refused.reason).toBe('throttled');
+      delays.push(refused.retryAfter);
+      jest.advanceTimersByTime(refused.retryAfter * 1000);
+    }
+
+    expect(delays).toEqual([1, 2, 4, 8, 16, 30, 30]);
+  });
+
+  it('does not count attempts refused during a delay', async () => {
+    await failLogin();
+    await failLogin();
+    await failLogin();
+
+    expect(await failLogin()).toMatchObject({ allowed: false, reason: 'throttled' });
+    expect(await failLogin()).toMatchObject({ allowed: false, reason: 'throttled' });
+    expect(await accountFailures()).toBe(3);
+  });
+
+  it('locks the account after ten failures and emails an unlock link once', async () => {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      jest.advanceTimersByTime(30 * 1000);
+      expect((await failLogin()).allowed).toBe(true);
+    }
+
+    const locked = await checkLoginThrottle(email);
+    expect(locked).toEqual({ allowed: false, reason: 'locked', retryAfter: 15 * 60 });
+
+    expect(sendAccountLockedEmail).toHaveBeenCalledTimes(1);
+    expect(sendAccountLockedEmail).toHaveBeenCalledWith(email, expect.any(String), 'Jane', 15);
+    expect(await AuditEventModel.countDocuments({ type: 'account_locked' })).toBe(1);
+
+    // The lock ends by itself
+    jest.advanceTimersByTime(15 * 60 * 1000);
+    expect(await checkLoginThrottle(email)).toEqual({ allowed: true });
+  });
+
+  it('unlocks the account with the emailed token, once', async () => {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      jest.advanceTimersByTime(30 * 1000);
+      await failLogin();
+    }
+
+    const unlockToken = (sendAccountLockedEmail as jest.Mock).mock.calls[0][1];
+
+    expect(await unlockAccountWithToken(unlockToken)).toBe(email);
+    expect(await unlockAccountWithToken(unlockToken)).toBeNull();
+    expect(await checkLoginThrottle(email)).toEqual({ allowed: true });
+  });
+
+  it('resets the account count after a successful sign-in', async () => {
+    await failLogin('198.51.100.1');
+    await failLogin('198.51.100.1');
+
+    // The successful attempt is counted too, then given back
+    await checkLoginThrottle(email, '198.51.100.1');
+    await clearLoginFailures(email, '198.51.100.1');
+
+    expect(await accountFailures()).toBe(0);
+    expect((await LoginAttemptModel.findOne({ key: 'ip:198.51.100.1' })).failures).toBe(2);
+  });
+
+  it('does not hold an attempt refused by the IP limit against the account', async () => {
+    const ip = '198.51.100.2';
+
+    // Twenty failures spread over other accounts start the IP's delay
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const address = `user${attempt}@example.com`;
+      expect((await checkLoginThrottle(address, ip)).allowed).toBe(true);
+      await recordLoginFailure(address, ip);
+    }
+
+    expect(await checkLoginThrottle(email, ip)).toMatchObject({ allowed: false, reason: 'throttled' });
+    expect(await accountFailures()).toBe(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import Session from '../../src/models/session.model';
+import RevokedToken from '../../src/models/revokedToken.model';
+import { IUser } from '../../src/models/user.model';
+import { createSession, rotateSession } from '../../src/services/session.service';
+import { decodeToken, VerifiedTokenPayload } from '../../src/lib/jwt';
+
+jest.mock('../../src/models/session.model', () => require('../support/memoryModel').createMemoryModel());
+jest.mock('../../src/models/revokedToken.model', () =>
+  require('../support/memoryModel').createMemoryModel({ unique: ['jti'] })
+);
+
+const SessionModel = Session as any;
+const RevokedTokenModel = RevokedToken as any;
+
+const user = {
+  _id: new mongoose.Types.ObjectId(),
+  email: 'jane@example.com',
+  role: 'user',
+  tokenVersion: 0
+} as unknown as IUser;
+
+const req = {
+  ip: '203.0.113.7',
+  get: () => 'jest'
+} as unknown as Request;
+
+describe('refresh token rotation', () => {
+  beforeEach(() => {
+    SessionModel.reset();
+    RevokedTokenModel.reset();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('issues a new refresh token and retires the presented one', async () => {
+    const { session, refreshToken } = await createSession(user, req);
+
+    const result = await rotateSession(session._id.toString(), refreshToken, user, req);
+
+    expect(result.status).toBe('rotated');
+    if (result.status !== 'rotated') return;
+    expect(result.refreshToken).not.toBe(refreshToken);
+    expect(decodeToken(result.refreshToken)?.sessionId).toBe(session._id.toString());
+
+    // The new token keeps working
+    const next = await rotateSession(session._id.toString(), result.refreshToken, user, req);
+    expect(next.status).toBe('rotated');
+  });
+
+  it('stores only the hash of the refresh token', async () => {
+    const { session, refreshToken } = await createSession(user, req);
+
+    expect(session.refreshToken).toBeDefined();
+    expect(session.refreshToken).not.toBe(refreshToken);
+  });
+
+  it('revokes the session when a retired refresh token is replayed', async () => {
+    const { session, refreshToken } = await createSession(user, req);
+    const sessionId = session._id.toString();
+
+    const rotated = await rotateSession(sessionId, refreshToken, user, req);
+    expect(rotated.status).toBe('rotated');
+
+    const replay = await rotateSession(sessionId, refreshToken, user, req);
+    expect(replay.status).toBe('reuse_detected');
+
+    const stored = await SessionModel.findById(sessionId);
+    expect(stored.revokedAt).toBeInstanceOf(Date);
+    expect(stored.revokedReason).toBe('refresh_token_reuse');
+    expect(stored.refreshToken).toBeUndefined();
+
+    // The whole family is dead, including the legitimately rotated token
+    if (rotated.status !== 'rotated') return;
+    const afterReuse = await rotateSession(sessionId, rotated.refreshToken, user, req);
+    expect(afterReuse.status).toBe('invalid');
+  });
+
+  it('revokes the latest access token of a session revoked for reuse', async () => {
+    const { session, refreshToken } = await createSession(user, req);
+    const sessionId = session._id.toString();
+
+    const rotated = await rotateSession(sessionId, refreshToken, user, req);
+    await rotateSession(sessionId, refreshToken, user, req);
+
+    if (rotated.status !== 'rotated') throw new Error('expected rotation');
+    const { jti } = decodeToken(rotated.accessToken) as VerifiedTokenPayload;
+    expect(await RevokedTokenModel.exists({ jti })).not.toBeNull();
+  });
+
+  it('rejects a token for another user or a revoked session', async () => {
+    const { session, refreshToken } = await createSession(user, req);
+    const otherUser = { ...user, _id: new mongoose.Types.ObjectId() } as unknown as IUser;
+
+    expect((await rotateSession(session._id.toString(), refreshToken, otherUser, req)).status).toBe('invalid');
+
+    await SessionModel.updateOne({ _id: session._id }, { $set: { revokedAt: new Date() } });
+    expect((await rotateSession(session._id.toString(), refreshToken, user, req)).status).toBe('invalid');
+  });
+
+  it('lets only one of two parallel refreshes with the same token succeed', async () => {
+    const { session, refreshToken } = await createSession(user, req);
+    const sessionId = session._id.toString();
+
+    const results = await Promise.all([
+      rotateSession(sessionId, refreshToken, user, req),
+      rotateSession(sessionId, refreshToken, user, req)
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['reuse_detected', 'rotated']);
+  });
+});
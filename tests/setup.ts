@@ -0,0 +1,14 @@
+import crypto from 'crypto';
+
+// Keys and secrets for the test run (the loaders would otherwise warn and generate their own)
+const generateKey = (): string => {
+  const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  return Buffer.from(privateKey.export({ type: 'pkcs8', format: 'pem' }) as string).toString('base64');
+};
+
+process.env.DOTENV_CONFIG_QUIET = 'true';
+process.env.JWT_SECRET = crypto.randomBytes(32).toString('hex');
+process.env.SECRET_HASH_KEY = crypto.randomBytes(32).toString('hex');
+process.env.JWT_ACCESS_KEYS = `test:${generateKey()}`;
+process.env.JWT_REFRESH_KEYS = `test:${generateKey()}`;
+process.env.FIELD_ENCRYPTION_KEYS = `test:${crypto.randomBytes(32).toString('base64')}`;
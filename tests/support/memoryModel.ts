@@ -0,0 +1,332 @@
+import mongoose from 'mongoose';
+
+// In-memory stand-in for a Mongoose model, covering the query and update
+// operators the services use. Lets service tests run without a MongoDB server.
+
+type Doc = Record<string, any>;
+
+interface MemoryModelOptions {
+  unique?: string[]; // Fields with a unique index (duplicates throw E11000)
+}
+
+const isPlainObject = (value: unknown): value is Doc =>
+  typeof value === 'object' &&
+  value !== null &&
+  !(value instanceof Date) &&
+  !(value instanceof RegExp) &&
+  !(value instanceof mongoose.Types.ObjectId) &&
+  !Array.isArray(value);
+
+const comparable = (value: any): any => {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (value instanceof mongoose.Types.ObjectId) {
+    return value.toString();
+  }
+  return value;
+};
+
+const valuesEqual = (a: any, b: any): boolean => comparable(a) === comparable(b);
+
+const getPath = (doc: Doc, path: string): any =>
+  path.split('.').reduce((value, part) => (value == null ? undefined : value[part]), doc);
+
+const matchesCondition = (value: any, condition: any): boolean => {
+  if (condition instanceof RegExp) {
+    return typeof value === 'string' && condition.test(value);
+  }
+
+  if (!isPlainObject(condition) || !Object.keys(condition).every((key) => key.startsWith('$'))) {
+    return Array.isArray(value) ? value.some((item) => valuesEqual(item, condition)) : valuesEqual(value, condition);
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$exists':
+        return (value !== undefined) === Boolean(operand);
+      case '$ne':
+        return !valuesEqual(value, operand);
+      case '$in':
+        return (operand as any[]).some((item) => valuesEqual(value, item));
+      case '$gt':
+        return value != null && comparable(value) > comparable(operand);
+      case '$gte':
+        return value != null && comparable(value) >= comparable(operand);
+      case '$lt':
+        return value != null && comparable(value) < comparable(operand);
+      case '$lte':
+        return value != null && comparable(value) <= comparable(operand);
+      case '$not':
+        return !matchesCondition(value, operand);
+      case '$regex':
+        return typeof value === 'string' && new RegExp(operand as any).test(value);
+      default:
+        throw new Error(`memoryModel: unsupported query operator ${operator}`);
+    }
+  });
+};
+
+const matches = (doc: Doc, filter: Doc): boolean =>
+  Object.entries(filter).every(([path, condition]) => {
+    if (path === '$or') {
+      return (condition as Doc[]).some((branch) => matches(doc, branch));
+    }
+    return matchesCondition(getPath(doc, path), condition);
+  });
+
+// Aggregation expressions used in pipeline updates
+const REMOVE = Symbol('remove');
+
+const evaluate = (expression: any, doc: Doc): any => {
+  if (typeof expression === 'string') {
+    if (expression === '$$REMOVE') {
+      return REMOVE;
+    }
+    return expression.startsWith('$') ? getPath(doc, expression.substring(1)) : expression;
+  }
+
+  if (!isPlainObject(expression)) {
+    return expression;
+  }
+
+  const [operator] = Object.keys(expression);
+  const args = (expression[operator] as any[]).map((arg) => evaluate(arg, doc));
+
+  switch (operator) {
+    case '$ifNull':
+      return args[0] ?? args[1];
+    case '$add': {
+      const date = args.find((arg) => arg instanceof Date);
+      const total = args.reduce((sum, arg) => sum + comparable(arg), 0);
+      return date ? new Date(total) : total;
+    }
+    case '$subtract':
+      return args[0] - args[1];
+    case '$multiply':
+      return args.reduce((product, arg) => product * arg, 1);
+    case '$pow':
+      return Math.pow(args[0], args[1]);
+    case '$min':
+      return Math.min(...args);
+    case '$gte':
+      return comparable(args[0]) >= comparable(args[1]);
+    case '$cond':
+      return args[0] ? args[1] : args[2];
+    default:
+      throw new Error(`memoryModel: unsupported expression operator ${operator}`);
+  }
+};
+
+const applyUpdate = (doc: Doc, update: Doc | Doc[], inserting = false): void => {
+  if (Array.isArray(update)) {
+    for (const stage of update) {
+      for (const [path, expression] of Object.entries(stage.$set || {})) {
+        const value = evaluate(expression, doc);
+        if (value === REMOVE) {
+          delete doc[path];
+        } else {
+          doc[path] = value;
+        }
+      }
+    }
+    return;
+  }
+
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as Doc)) {
+      switch (operator) {
+        case '$set':
+          doc[path] = value;
+          break;
+        case '$setOnInsert':
+          if (inserting) {
+            doc[path] = value;
+          }
+          break;
+        case '$unset':
+          delete doc[path];
+          break;
+        case '$inc':
+          doc[path] = (doc[path] ?? 0) + value;
+          break;
+        case '$push':
+          doc[path] = [...(doc[path] || []), value];
+          break;
+        default:
+          throw new Error(`memoryModel: unsupported update operator ${operator}`);
+      }
+    }
+  }
+};
+
+const duplicateKeyError = () => Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+
+// Chainable, awaitable query result (supports the modifiers the services use)
+const query = <T>(run: () => T) => {
+  const chain: any = {
+    // Plain copies, so later writes don't show through (as with a real read)
+    lean: () => query(() => {
+      const result: any = run();
+      return Array.isArray(result) ? result.map((doc) => ({ ...doc })) : result && { ...result };
+    }),
+    select: () => chain,
+    sort: (order: Doc) => query(() => {
+      const [[field, direction]] = Object.entries(order);
+      return [...(run() as any)].sort((a: Doc, b: Doc) =>
+        (comparable(a[field]) > comparable(b[field]) ? 1 : -1) * (direction as number));
+    }),
+    limit: (count: number) => query(() => (run() as any).slice(0, count)),
+    exec: async () => run(),
+    then: (resolve: any, reject: any) => Promise.resolve().then(run).then(resolve, reject)
+  };
+  return chain;
+};
+
+/**
+ * Create an in-memory model
+ * @param options - Unique fields
+ * @returns Model class with the static query methods and save() on instances
+ */
+export const createMemoryModel = (options: MemoryModelOptions = {}) => {
+  const documents: Doc[] = [];
+
+  const checkUnique = (doc: Doc) => {
+    for (const field of options.unique || []) {
+      if (doc[field] !== undefined && documents.some((other) => other !== doc && valuesEqual(other[field], doc[field]))) {
+        throw duplicateKeyError();
+      }
+    }
+  };
+
+  // Insert for an upsert that matched nothing, seeded with the filter's equality fields
+  const upsert = (filter: Doc, update: Doc | Doc[]) => {
+    const seed: Doc = {};
+    for (const [path, condition] of Object.entries(filter)) {
+      if (!isPlainObject(condition) && !(condition instanceof RegExp)) {
+        seed[path] = condition;
+      }
+    }
+
+    const created = new MemoryModel(seed);
+    applyUpdate(created, update, true);
+    checkUnique(created);
+    documents.push(created);
+    return created;
+  };
+
+  class MemoryModel {
+    [field: string]: any;
+
+    constructor(fields: Doc = {}) {
+      Object.assign(this, { _id: new mongoose.Types.ObjectId(), ...fields });
+    }
+
+    set(fields: Doc) {
+      Object.assign(this, fields);
+      return this;
+    }
+
+    async save() {
+      checkUnique(this);
+      if (!documents.includes(this)) {
+        documents.push(this);
+      }
+      return this;
+    }
+
+    toObject() {
+      return { ...this };
+    }
+
+    static documents = documents;
+
+    static reset() {
+      documents.length = 0;
+    }
+
+    static async create(fields: Doc) {
+      return new MemoryModel(fields).save();
+    }
+
+    static find(filter: Doc = {}) {
+      return query(() => documents.filter((doc) => matches(doc, filter)));
+    }
+
+    static findOne(filter: Doc = {}) {
+      return query(() => documents.find((doc) => matches(doc, filter)) || null);
+    }
+
+    static findById(id: unknown) {
+      return MemoryModel.findOne({ _id: id });
+    }
+
+    static async exists(filter: Doc) {
+      const doc = documents.find((candidate) => matches(candidate, filter));
+      return doc ? { _id: doc._id } : null;
+    }
+
+    static async countDocuments(filter: Doc = {}) {
+      return documents.filter((doc) => matches(doc, filter)).length;
+    }
+
+    static async findOneAndUpdate(filter: Doc, update: Doc | Doc[], updateOptions: Doc = {}) {
+      const doc = documents.find((candidate) => matches(candidate, filter));
+
+      if (!doc) {
+        if (!updateOptions.upsert) {
+          return null;
+        }
+
+        const created = upsert(filter, update);
+        return updateOptions.new ? created : null;
+      }
+
+      const before = new MemoryModel({ ...doc });
+      applyUpdate(doc, update);
+      checkUnique(doc);
+      return updateOptions.new ? doc : before;
+    }
+
+    static async findOneAndDelete(filter: Doc) {
+      const index = documents.findIndex((doc) => matches(doc, filter));
+      return index === -1 ? null : documents.splice(index, 1)[0];
+    }
+
+    static async updateOne(filter: Doc, update: Doc | Doc[], updateOptions: Doc = {}) {
+      const doc = documents.find((candidate) => matches(candidate, filter));
+
+      if (!doc) {
+        const upserted = updateOptions.upsert ? upsert(filter, update) : null;
+        return { matchedCount: 0, modifiedCount: 0, upsertedCount: upserted ? 1 : 0 };
+      }
+
+      applyUpdate(doc, update);
+      checkUnique(doc);
+      return { matchedCount: 1, modifiedCount: 1, upsertedCount: 0 };
+    }
+
+    static async updateMany(filter: Doc, update: Doc | Doc[]) {
+      const matched = documents.filter((doc) => matches(doc, filter));
+      matched.forEach((doc) => applyUpdate(doc, update));
+      return { matchedCount: matched.length, modifiedCount: matched.length };
+    }
+
+    static async deleteOne(filter: Doc) {
+      const index = documents.findIndex((doc) => matches(doc, filter));
+      if (index !== -1) {
+        documents.splice(index, 1);
+      }
+      return { deletedCount: index === -1 ? 0 : 1 };
+    }
+
+    static async deleteMany(filter: Doc = {}) {
+      const before = documents.length;
+      const kept = documents.filter((doc) => !matches(doc, filter));
+      documents.splice(0, documents.length, ...kept);
+      return { deletedCount: before - kept.length };
+    }
+  }
+
+  return { __esModule: true, default: MemoryModel };
+};